@@ -0,0 +1,269 @@
+import { createHash, randomBytes } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { existsSync } from "fs";
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises";
+import type { TokenizerModel } from "./tokenizer.js";
+
+// Fixed location so the cache doesn't depend on the launcher's working directory
+export const CACHE_DIR = path.join(
+	process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+	'cogniteration',
+	'code-context'
+);
+
+const TOKEN_CACHE_DIR = path.join(CACHE_DIR, 'token-counts');
+const CACHE_VERSION = 1;
+
+// Entries kept per model; the least recently used are dropped beyond this
+const MAX_ENTRIES = 50000;
+
+export interface FileCounts {
+	lineCount: number;
+	tokenCount: number;
+}
+
+interface CacheEntry extends FileCounts {
+	size: number;
+	mtimeMs: number;
+	hash: string;
+	// Whether secrets were redacted before counting
+	redacted?: boolean;
+}
+
+interface CacheFile {
+	version: number;
+	model: TokenizerModel;
+	entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+	model: string;
+	file: string;
+	entries: number;
+	bytes: number;
+	hits: number;
+	misses: number;
+}
+
+function cacheFileFor(model: string): string {
+	return path.join(TOKEN_CACHE_DIR, `${model.replace(/[\\/]/g, '--')}.json`);
+}
+
+// On-disk token counts for a single tokenizer model, keyed by absolute file path.
+// Entries are kept in the order they were last used, oldest first.
+export class TokenCountCache {
+	private entries = new Map<string, CacheEntry>();
+	private dirty = false;
+	// Whether entries for files that no longer exist have been dropped this session
+	private pruned = false;
+	hits = 0;
+	misses = 0;
+
+	constructor(readonly model: TokenizerModel, readonly file: string) {}
+
+	async load(): Promise<void> {
+		try {
+			const data: CacheFile = JSON.parse(await readFile(this.file, 'utf-8'));
+			if (data.version === CACHE_VERSION && data.model === this.model) {
+				this.entries = new Map(Object.entries(data.entries));
+			}
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`Ignoring unreadable token cache at ${this.file}:`, error);
+			}
+		}
+	}
+
+	// Return cached counts when the file is unchanged, otherwise compute and store them.
+	// Size and mtime are checked first; if they differ, a matching content hash still counts as a hit.
+	// Estimated counts are returned but not stored, so real counts replace them once a tokenizer loads.
+	// Counts of redacted content are only reused for redacted reads, and the other way round.
+	async getOrCompute(
+		filePath: string,
+		compute: (buffer: Buffer) => Promise<FileCounts & { estimated?: boolean }>,
+		redacted = false
+	): Promise<FileCounts & { cached: boolean }> {
+		const stats = await stat(filePath);
+		const stored = this.entries.get(filePath);
+		const entry = stored && (stored.redacted ?? false) === redacted ? stored : undefined;
+		if (stored) {
+			this.touch(filePath, stored);
+		}
+
+		if (entry && entry.size === stats.size && entry.mtimeMs === stats.mtimeMs) {
+			this.hits++;
+			return { lineCount: entry.lineCount, tokenCount: entry.tokenCount, cached: true };
+		}
+
+		const buffer = await readFile(filePath);
+		const hash = createHash('sha256').update(buffer).digest('hex');
+
+		if (entry && entry.size === stats.size && entry.hash === hash) {
+			entry.mtimeMs = stats.mtimeMs;
+			this.dirty = true;
+			this.hits++;
+			return { lineCount: entry.lineCount, tokenCount: entry.tokenCount, cached: true };
+		}
+
+		const { estimated, ...counts } = await compute(buffer);
+		if (!estimated) {
+			this.entries.delete(filePath);
+			this.entries.set(filePath, {
+				size: stats.size,
+				mtimeMs: stats.mtimeMs,
+				hash,
+				...(redacted ? { redacted } : {}),
+				...counts
+			});
+			this.dirty = true;
+		}
+		this.misses++;
+		return { ...counts, cached: false };
+	}
+
+	// Move an entry to the end, as the most recently used. The new order alone isn't worth a
+	// write; it is saved along with the next change.
+	private touch(filePath: string, entry: CacheEntry): void {
+		this.entries.delete(filePath);
+		this.entries.set(filePath, entry);
+	}
+
+	// Drop entries for files that were deleted or renamed, once a session, and the least
+	// recently used entries beyond the limit
+	private prune(): void {
+		if (!this.pruned) {
+			for (const filePath of [...this.entries.keys()]) {
+				if (!existsSync(filePath)) {
+					this.entries.delete(filePath);
+					this.dirty = true;
+				}
+			}
+			this.pruned = true;
+		}
+		for (const filePath of this.entries.keys()) {
+			if (this.entries.size <= MAX_ENTRIES) {
+				break;
+			}
+			this.entries.delete(filePath);
+			this.dirty = true;
+		}
+	}
+
+	// Write pending changes to disk; failures are logged rather than failing the analysis.
+	// The file is written next to the cache and renamed over it, so sessions saving at once or
+	// a crash mid-write can't leave it truncated.
+	async save(): Promise<void> {
+		this.prune();
+		if (!this.dirty) {
+			return;
+		}
+		const data: CacheFile = {
+			version: CACHE_VERSION,
+			model: this.model,
+			entries: Object.fromEntries(this.entries)
+		};
+		const temporary = `${this.file}.${randomBytes(6).toString('hex')}.tmp`;
+		try {
+			await mkdir(path.dirname(this.file), { recursive: true });
+			await writeFile(temporary, JSON.stringify(data), 'utf-8');
+			await rename(temporary, this.file);
+			this.dirty = false;
+		} catch (error) {
+			console.error(`Error writing token cache at ${this.file}:`, error);
+			await rm(temporary, { force: true });
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.dirty = false;
+		this.hits = 0;
+		this.misses = 0;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+const caches = new Map<TokenizerModel, Promise<TokenCountCache>>();
+
+export function getTokenCountCache(model: TokenizerModel): Promise<TokenCountCache> {
+	let cache = caches.get(model);
+	if (!cache) {
+		const instance = new TokenCountCache(model, cacheFileFor(model));
+		cache = instance.load().then(() => instance);
+		caches.set(model, cache);
+	}
+	return cache;
+}
+
+// Describe every cache on disk, plus this session's hit/miss counts for loaded ones
+export async function getCacheStats(): Promise<CacheStats[]> {
+	const stats = new Map<string, CacheStats>();
+
+	let names: string[] = [];
+	try {
+		names = (await readdir(TOKEN_CACHE_DIR)).filter(name => name.endsWith('.json'));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			throw error;
+		}
+	}
+
+	for (const name of names) {
+		const file = path.join(TOKEN_CACHE_DIR, name);
+		try {
+			const [content, info] = await Promise.all([readFile(file, 'utf-8'), stat(file)]);
+			const data: CacheFile = JSON.parse(content);
+			stats.set(file, {
+				model: data.model,
+				file,
+				entries: Object.keys(data.entries ?? {}).length,
+				bytes: info.size,
+				hits: 0,
+				misses: 0
+			});
+		} catch (error) {
+			console.error(`Error reading token cache at ${file}:`, error);
+		}
+	}
+
+	for (const pending of caches.values()) {
+		const cache = await pending;
+		const existing = stats.get(cache.file);
+		stats.set(cache.file, {
+			model: cache.model,
+			file: cache.file,
+			entries: cache.size,
+			bytes: existing?.bytes ?? 0,
+			hits: cache.hits,
+			misses: cache.misses
+		});
+	}
+
+	return [...stats.values()];
+}
+
+// Remove the cache for one model, or every model when none is given
+export async function clearTokenCountCache(model?: TokenizerModel): Promise<string[]> {
+	const removed: string[] = [];
+	for (const pending of caches.values()) {
+		const cache = await pending;
+		if (!model || cache.model === model) {
+			cache.clear();
+		}
+	}
+
+	const files = model
+		? [cacheFileFor(model)]
+		: (await getCacheStats()).map(entry => entry.file);
+	for (const file of files) {
+		if (existsSync(file)) {
+			await rm(file);
+			removed.push(file);
+		}
+	}
+	return removed;
+}
@@ -0,0 +1,138 @@
+import { open } from "fs/promises";
+
+// Content sniffing for text files: detects binary content, byte order marks,
+// UTF-16 text and minified single-line files from the first few kilobytes
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be";
+
+export type ContentCheck =
+	| { text: true; encoding: TextEncoding; bomLength: number }
+	| { text: false; kind: "binary" | "minified" | "too-large"; reason: string };
+
+export type FileCheck = ContentCheck & { size: number };
+
+// How much of each file is inspected
+const SNIFF_BYTES = 8192;
+
+// Share of invalid UTF-8 sequences above which a file is treated as binary
+const MAX_INVALID_UTF8_RATIO = 0.1;
+
+// Count invalid UTF-8 sequences, ignoring a character cut off at the end of the sample
+function countInvalidUtf8(bytes: Buffer, truncated: boolean): number {
+	let invalid = 0;
+	let i = 0;
+	while (i < bytes.length) {
+		const byte = bytes[i];
+		const length = byte < 0x80 ? 1
+			: byte >= 0xc2 && byte <= 0xdf ? 2
+			: byte >= 0xe0 && byte <= 0xef ? 3
+			: byte >= 0xf0 && byte <= 0xf4 ? 4
+			: 0;
+		if (length === 0) {
+			invalid++;
+			i++;
+			continue;
+		}
+		if (truncated && i + length > bytes.length) {
+			break;
+		}
+		let valid = i + length <= bytes.length;
+		for (let k = 1; valid && k < length; k++) {
+			valid = (bytes[i + k] & 0xc0) === 0x80;
+		}
+		if (!valid) {
+			invalid++;
+			i++;
+			continue;
+		}
+		i += length;
+	}
+	return invalid;
+}
+
+// Guess UTF-16 without a BOM from the pattern of zero bytes in mostly-ASCII text
+function detectUtf16(bytes: Buffer): TextEncoding | undefined {
+	const pairs = Math.floor(bytes.length / 2);
+	if (pairs < 8) {
+		return undefined;
+	}
+	let evenZeros = 0;
+	let oddZeros = 0;
+	for (let i = 0; i + 1 < bytes.length; i += 2) {
+		if (bytes[i] === 0) {
+			evenZeros++;
+		}
+		if (bytes[i + 1] === 0) {
+			oddZeros++;
+		}
+	}
+	if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+		return "utf-16le";
+	}
+	if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+		return "utf-16be";
+	}
+	return undefined;
+}
+
+// Classify a sample from the start of a file; `truncated` means the file continues past it
+export function sniffContent(sample: Buffer, truncated: boolean): ContentCheck {
+	if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+		return { text: true, encoding: "utf-8", bomLength: 3 };
+	}
+	if (sample[0] === 0xff && sample[1] === 0xfe) {
+		return { text: true, encoding: "utf-16le", bomLength: 2 };
+	}
+	if (sample[0] === 0xfe && sample[1] === 0xff) {
+		return { text: true, encoding: "utf-16be", bomLength: 2 };
+	}
+
+	if (sample.includes(0)) {
+		const encoding = detectUtf16(sample);
+		if (encoding) {
+			return { text: true, encoding, bomLength: 0 };
+		}
+		return { text: false, kind: "binary", reason: "Binary file (contains NUL bytes)" };
+	}
+
+	if (sample.length > 0 && countInvalidUtf8(sample, truncated) / sample.length > MAX_INVALID_UTF8_RATIO) {
+		return { text: false, kind: "binary", reason: "Binary file (not valid UTF-8 text)" };
+	}
+
+	if (truncated && !sample.includes(0x0a)) {
+		return { text: false, kind: "minified", reason: `Minified file (no line breaks in the first ${SNIFF_BYTES} bytes)` };
+	}
+
+	return { text: true, encoding: "utf-8", bomLength: 0 };
+}
+
+// Inspect a file's size and first bytes to decide whether it should be read as text
+export async function checkFile(filePath: string, maxFileSize: number): Promise<FileCheck> {
+	const handle = await open(filePath, 'r');
+	try {
+		const { size } = await handle.stat();
+		if (size > maxFileSize) {
+			return { text: false, kind: "too-large", reason: `File too large (${size} bytes, limit is ${maxFileSize})`, size };
+		}
+		const sample = Buffer.alloc(Math.min(SNIFF_BYTES, size));
+		const { bytesRead } = await handle.read(sample, 0, sample.length, 0);
+		return { ...sniffContent(sample.subarray(0, bytesRead), size > bytesRead), size };
+	} finally {
+		await handle.close();
+	}
+}
+
+// Decode file contents to a string, dropping any byte order mark
+export function decodeText(buffer: Buffer, encoding: TextEncoding, bomLength: number): string {
+	const body = buffer.subarray(bomLength);
+	switch (encoding) {
+		case "utf-16le":
+			return body.toString('utf16le');
+		case "utf-16be": {
+			const swapped = Buffer.from(body.subarray(0, body.length - (body.length % 2)));
+			return swapped.swap16().toString('utf16le');
+		}
+		default:
+			return body.toString('utf-8');
+	}
+}
@@ -0,0 +1,197 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+// Thin wrappers around the git CLI. Every command runs with the requested directory
+// as its working directory and `--relative`, so results are limited to that directory
+// and its paths are relative to it, even when the repository root lies above it.
+
+const execFileAsync = promisify(execFile);
+
+// Diffs of large branches can be big; anything past this fails rather than being cut off
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+
+export type ChangeStatus = "added" | "modified" | "deleted" | "renamed" | "copied" | "typechange" | "untracked";
+
+export interface ChangedFile {
+	path: string;
+	status: ChangeStatus;
+	// Previous path of a renamed or copied file
+	oldPath?: string;
+}
+
+export interface FileDiff {
+	path: string;
+	patch: string;
+}
+
+export interface RecentFile {
+	path: string;
+	// Time of the most recent commit touching the file, in seconds since the epoch
+	timestamp: number;
+}
+
+// What to compare: the working tree against a base ref (from where the current branch
+// forked off it), the index against HEAD, or the working tree against the index
+export interface ChangeScope {
+	base?: string;
+	staged?: boolean;
+}
+
+export async function runGit(cwd: string, args: string[], signal?: AbortSignal): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', ...args], {
+			cwd,
+			signal,
+			maxBuffer: MAX_GIT_OUTPUT,
+			env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' }
+		});
+		return stdout;
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException & { stderr?: string };
+		if (err.code === 'ENOENT') {
+			throw new Error('git is not installed or not on the PATH');
+		}
+		const message = err.stderr?.trim() || err.message;
+		if (/not a git repository/i.test(message)) {
+			throw new Error(`Not inside a git repository: ${cwd}`);
+		}
+		throw new Error(`git ${args[0]} failed: ${message}`);
+	}
+}
+
+// Refs come from the client; one starting with '-' would be read as an option
+export async function resolveRef(cwd: string, ref: string, signal?: AbortSignal): Promise<string> {
+	if (ref.startsWith('-')) {
+		throw new Error(`Invalid git ref: ${ref}`);
+	}
+	try {
+		return (await runGit(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], signal)).trim();
+	} catch {
+		throw new Error(`Unknown git ref: ${ref}`);
+	}
+}
+
+// The diff arguments selecting what a scope compares
+async function scopeArgs(cwd: string, scope: ChangeScope, signal?: AbortSignal): Promise<string[]> {
+	if (scope.base !== undefined) {
+		const base = await resolveRef(cwd, scope.base, signal);
+		const mergeBase = (await runGit(cwd, ['merge-base', base, 'HEAD'], signal)).trim();
+		return [mergeBase];
+	}
+	return scope.staged ? ['--cached'] : [];
+}
+
+const STATUS_LETTERS: Record<string, ChangeStatus> = {
+	A: "added",
+	M: "modified",
+	D: "deleted",
+	R: "renamed",
+	C: "copied",
+	T: "typechange"
+};
+
+// Parse `git diff --name-status -z`: a status field, then one path (two for renames and copies)
+function parseNameStatus(output: string): ChangedFile[] {
+	const fields = output.split('\0');
+	const files: ChangedFile[] = [];
+	let i = 0;
+	while (i < fields.length && fields[i] !== '') {
+		const status = STATUS_LETTERS[fields[i][0]] ?? "modified";
+		if (status === "renamed" || status === "copied") {
+			files.push({ status, oldPath: fields[i + 1], path: fields[i + 2] });
+			i += 3;
+		} else {
+			files.push({ status, path: fields[i + 1] });
+			i += 2;
+		}
+	}
+	return files;
+}
+
+// List changed files; untracked files are included unless comparing staged changes
+export async function getChangedFiles(
+	cwd: string,
+	scope: ChangeScope,
+	signal?: AbortSignal
+): Promise<ChangedFile[]> {
+	const args = await scopeArgs(cwd, scope, signal);
+	const files = parseNameStatus(
+		await runGit(cwd, ['diff', '--name-status', '-z', '--find-renames', '--relative', ...args, '--'], signal)
+	);
+
+	if (!scope.staged) {
+		const untracked = await runGit(cwd, ['ls-files', '--others', '--exclude-standard', '-z'], signal);
+		for (const file of untracked.split('\0')) {
+			if (file) {
+				files.push({ status: "untracked", path: file });
+			}
+		}
+	}
+
+	return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Get the diff for each changed file, optionally limited to some paths under the directory
+export async function getFileDiffs(
+	cwd: string,
+	scope: ChangeScope,
+	options: { paths?: string[]; contextLines: number },
+	signal?: AbortSignal
+): Promise<FileDiff[]> {
+	const args = await scopeArgs(cwd, scope, signal);
+	const output = await runGit(cwd, [
+		'diff',
+		'--no-color',
+		'--no-ext-diff',
+		'--find-renames',
+		'--relative',
+		`--unified=${options.contextLines}`,
+		...args,
+		'--',
+		...(options.paths ?? [])
+	], signal);
+
+	// Split the combined patch at each file header
+	return output.split(/^(?=diff --git )/m)
+		.filter(patch => patch.startsWith('diff --git '))
+		.map(patch => {
+			// Prefer the new path; deleted files only have the old one
+			const newPath = patch.match(/^\+\+\+ b\/(.*)$/m)?.[1] ?? patch.match(/^rename to (.*)$/m)?.[1];
+			const oldPath = patch.match(/^--- a\/(.*)$/m)?.[1];
+			const headerPath = patch.match(/^diff --git a\/.* b\/(.*)$/m)?.[1];
+			// Git ends names containing spaces with a tab in the ---/+++ lines
+			return { path: (newPath ?? oldPath ?? headerPath ?? '').replace(/\t$/, ''), patch: patch.trimEnd() };
+		});
+}
+
+// Files ordered by the most recent commit that touched them, newest first.
+// Only the last `maxCommits` commits are searched.
+export async function getRecentFiles(
+	cwd: string,
+	options: { maxCommits: number; since?: string },
+	signal?: AbortSignal
+): Promise<RecentFile[]> {
+	const output = await runGit(cwd, [
+		'log',
+		`--max-count=${options.maxCommits}`,
+		...(options.since ? [`--since=${options.since}`] : []),
+		'--name-only',
+		'--no-renames',
+		'--relative',
+		'--format=%x01%ct',
+		'--',
+		'.'
+	], signal);
+
+	const seen = new Map<string, number>();
+	let timestamp = 0;
+	for (const line of output.split('\n')) {
+		if (line.startsWith('\x01')) {
+			timestamp = Number(line.slice(1));
+		} else if (line && !seen.has(line)) {
+			seen.set(line, timestamp);
+		}
+	}
+
+	return [...seen].map(([path, timestamp]) => ({ path, timestamp }));
+}
@@ -0,0 +1,186 @@
+// code-context/http.ts and code-edit/http.ts are identical copies, as the two packages are
+// published separately. Change both together.
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Serves MCP over the streamable HTTP transport, so one long-running server (with its
+// tokenizers and caches loaded) can be shared by several clients. Each client gets a
+// session with its own MCP server instance, created by the caller's factory.
+
+export type TransportKind = "stdio" | "http";
+
+export interface TransportOptions {
+	transport: TransportKind;
+	host: string;
+	port: number;
+	// Clients must send this as a bearer token when set
+	authToken?: string;
+}
+
+const TRANSPORT_FLAG = "--transport=";
+const HOST_FLAG = "--host=";
+const PORT_FLAG = "--port=";
+const AUTH_TOKEN_FLAG = "--auth-token=";
+
+export const TRANSPORT_FLAGS = [TRANSPORT_FLAG, HOST_FLAG, PORT_FLAG, AUTH_TOKEN_FLAG];
+
+// Also read from the environment, so the token doesn't have to appear in the process list
+const AUTH_TOKEN_ENV = "COGNITERATION_AUTH_TOKEN";
+
+export const MCP_PATH = "/mcp";
+
+const DEFAULT_HOST = "127.0.0.1";
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1", "[::1]"];
+
+// Requests larger than this are refused before parsing
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Read the transport flags; throws on an invalid value
+export function parseTransportOptions(args: string[], defaultPort: number): TransportOptions {
+	const value = (flag: string) => args.find(arg => arg.startsWith(flag))?.slice(flag.length);
+
+	const transport = value(TRANSPORT_FLAG) ?? "stdio";
+	if (transport !== "stdio" && transport !== "http") {
+		throw new Error(`Invalid transport: ${transport} (expected stdio or http)`);
+	}
+
+	const portValue = value(PORT_FLAG);
+	const port = portValue !== undefined ? Number(portValue) : defaultPort;
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		throw new Error(`Invalid port: ${portValue}`);
+	}
+
+	return {
+		transport,
+		host: value(HOST_FLAG) ?? DEFAULT_HOST,
+		port,
+		authToken: value(AUTH_TOKEN_FLAG) || process.env[AUTH_TOKEN_ENV] || undefined
+	};
+}
+
+// Compare tokens in constant time; hashing first makes the lengths equal
+function isAuthorized(header: string | undefined, token: string): boolean {
+	const match = header?.match(/^Bearer\s+(.+)$/i);
+	if (!match) {
+		return false;
+	}
+	const digest = (value: string) => createHash('sha256').update(value).digest();
+	return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+// Browsers can be tricked into sending requests to a server on localhost through a domain
+// that resolves to it (DNS rebinding); a loopback server only accepts loopback Host headers
+function isAllowedHost(req: IncomingMessage, host: string): boolean {
+	if (!LOOPBACK_HOSTS.includes(host)) {
+		return true;
+	}
+	const hostname = (req.headers.host ?? '').replace(/:\d+$/, '');
+	return LOOPBACK_HOSTS.includes(hostname);
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+	res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+	res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += chunk.length;
+		if (size > MAX_BODY_BYTES) {
+			throw new Error(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+		}
+		chunks.push(chunk);
+	}
+	return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+// Listen for MCP clients over HTTP until the process exits
+export async function serveHttp(createServer: () => Server, options: TransportOptions): Promise<void> {
+	const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+	const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		if (url.pathname !== MCP_PATH) {
+			sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+			return;
+		}
+		if (!isAllowedHost(req, options.host)) {
+			sendError(res, 403, `Invalid Host header: ${req.headers.host}`);
+			return;
+		}
+		if (options.authToken && !isAuthorized(req.headers.authorization, options.authToken)) {
+			sendError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+			return;
+		}
+
+		let body: unknown;
+		if (req.method === 'POST') {
+			try {
+				body = await readJsonBody(req);
+			} catch (error) {
+				sendError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : error}`);
+				return;
+			}
+		}
+
+		const sessionId = req.headers['mcp-session-id'];
+		if (typeof sessionId === 'string') {
+			const transport = sessions.get(sessionId);
+			if (!transport) {
+				sendError(res, 404, `Unknown session: ${sessionId}`);
+				return;
+			}
+			await transport.handleRequest(req, res, body);
+			return;
+		}
+
+		if (req.method !== 'POST' || !isInitializeRequest(body)) {
+			sendError(res, 400, 'Missing Mcp-Session-Id header; start a session with an initialize request');
+			return;
+		}
+
+		// A new client: give it its own server, connected to a transport for its session
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: id => {
+				sessions.set(id, transport);
+			}
+		});
+		// Set before connecting, so the server's own close handler is chained after it
+		transport.onclose = () => {
+			if (transport.sessionId) {
+				sessions.delete(transport.sessionId);
+			}
+		};
+		await createServer().connect(transport);
+		await transport.handleRequest(req, res, body);
+	};
+
+	const httpServer = createHttpServer((req, res) => {
+		handleRequest(req, res).catch(error => {
+			console.error('Error handling HTTP request:', error);
+			if (!res.headersSent) {
+				sendError(res, 500, 'Internal server error');
+			}
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once('error', reject);
+		httpServer.listen(options.port, options.host, resolve);
+	});
+
+	const address = httpServer.address();
+	const port = typeof address === 'object' && address ? address.port : options.port;
+	const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+	console.error(`Listening on http://${host}:${port}${MCP_PATH}`);
+	if (!options.authToken && !LOOPBACK_HOSTS.includes(options.host)) {
+		console.error(`Warning: no auth token set; anyone who can reach this address can use the server`);
+	}
+}
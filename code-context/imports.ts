@@ -0,0 +1,322 @@
+import * as path from "path";
+import { readFile, stat } from "fs/promises";
+import { maskPython, maskTypeScript, type OutlineLanguage } from "./outline.js";
+
+// Finds the imports in TypeScript/JavaScript and Python files and resolves them to files.
+// Like the outline scanner this works on masked source rather than a full parse, so imports
+// inside comments and strings are ignored. Imports of external packages don't resolve to
+// files under the root directory and are left out.
+
+export interface ImportReference {
+	// The module as written, e.g. "./util.js", "@/lib/db" or "..models"
+	specifier: string;
+	// Names from a Python `from x import a, b`, which may themselves be submodules
+	names: string[];
+}
+
+// Extensions tried for extensionless TS/JS imports, in the order TypeScript prefers them
+const TS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// TypeScript sources are imported by the name of their compiled output, e.g. "./util.js" for util.ts
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+	'.js': ['.ts', '.tsx'],
+	'.jsx': ['.tsx'],
+	'.mjs': ['.mts'],
+	'.cjs': ['.cts']
+};
+
+const TS_IMPORT_PATTERNS = [
+	// import x from "m", import { x } from "m", export * from "m", import type { T } from "m"
+	/(?<![.\w$])(?:import|export)\b[^'"`;]*?\bfrom\s*(['"])/g,
+	// import "m"
+	/(?<![.\w$])import\s*(['"])/g,
+	// import("m"), require("m")
+	/(?<![.\w$])(?:import|require)\s*\(\s*(['"])/g
+];
+
+export function extractImports(content: string, language: OutlineLanguage): ImportReference[] {
+	return language === "python" ? extractPythonImports(content) : extractTypeScriptImports(content);
+}
+
+function extractTypeScriptImports(content: string): ImportReference[] {
+	// String contents are blanked but their quotes kept, so the specifier is read from the original
+	const masked = maskTypeScript(content);
+	const imports: ImportReference[] = [];
+	for (const pattern of TS_IMPORT_PATTERNS) {
+		for (const match of masked.matchAll(pattern)) {
+			const open = match.index! + match[0].length - 1;
+			const close = masked.indexOf(match[1], open + 1);
+			if (close > open) {
+				imports.push({ specifier: content.slice(open + 1, close), names: [] });
+			}
+		}
+	}
+	return imports;
+}
+
+function extractPythonImports(content: string): ImportReference[] {
+	const masked = maskPython(content);
+	const imports: ImportReference[] = [];
+
+	for (const match of masked.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n]*)/gm)) {
+		const names = match[2]
+			.replace(/[()\\]/g, ' ')
+			.split(',')
+			.map(name => name.trim().split(/\s+/)[0])
+			.filter(name => name && name !== '*');
+		imports.push({ specifier: match[1], names });
+	}
+
+	for (const match of masked.matchAll(/^[ \t]*import[ \t]+([^\n]+)/gm)) {
+		for (const part of match[1].split(',')) {
+			const module = part.trim().split(/\s+/)[0];
+			if (module) {
+				imports.push({ specifier: module, names: [] });
+			}
+		}
+	}
+
+	return imports;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+	try {
+		return (await stat(filePath)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+async function isDirectory(filePath: string): Promise<boolean> {
+	try {
+		return (await stat(filePath)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+// Parse JSON that may contain comments and trailing commas, as tsconfig.json files do
+export function parseJsonWithComments(text: string): unknown {
+	let result = '';
+	let i = 0;
+	while (i < text.length) {
+		const c = text[i];
+		if (c === '"') {
+			const start = i;
+			i++;
+			while (i < text.length && text[i] !== '"') {
+				i += text[i] === '\\' ? 2 : 1;
+			}
+			i++;
+			result += text.slice(start, i);
+		} else if (c === '/' && text[i + 1] === '/') {
+			while (i < text.length && text[i] !== '\n') {
+				i++;
+			}
+		} else if (c === '/' && text[i + 1] === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end < 0 ? text.length : end + 2;
+		} else {
+			result += c;
+			i++;
+		}
+	}
+	return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+// The module resolution settings from a tsconfig.json, with paths already made absolute
+interface TsPathConfig {
+	baseUrl?: string;
+	// Directory the `paths` targets are relative to
+	pathsBase: string;
+	paths: Record<string, string[]>;
+}
+
+// Resolves import references to files under a root directory, caching tsconfig lookups
+export class ImportResolver {
+	private configs = new Map<string, Promise<TsPathConfig | undefined>>();
+
+	constructor(private readonly rootPath: string) {}
+
+	async resolve(fromFile: string, reference: ImportReference, language: OutlineLanguage): Promise<string[]> {
+		const resolved = language === "python"
+			? await this.resolvePython(fromFile, reference)
+			: await this.resolveTypeScript(fromFile, reference.specifier);
+		return resolved.filter(file => this.isInsideRoot(file));
+	}
+
+	private isInsideRoot(filePath: string): boolean {
+		const relative = path.relative(this.rootPath, filePath);
+		return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+	}
+
+	private async resolveTypeScript(fromFile: string, specifier: string): Promise<string[]> {
+		if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+			const file = await this.findTsFile(path.resolve(path.dirname(fromFile), specifier));
+			return file ? [file] : [];
+		}
+
+		const config = await this.findTsConfig(path.dirname(fromFile));
+		if (!config) {
+			return [];
+		}
+
+		for (const target of matchPaths(config.paths, specifier)) {
+			const file = await this.findTsFile(path.resolve(config.pathsBase, target));
+			if (file) {
+				return [file];
+			}
+		}
+		if (config.baseUrl) {
+			const file = await this.findTsFile(path.resolve(config.baseUrl, specifier));
+			if (file) {
+				return [file];
+			}
+		}
+		return [];
+	}
+
+	// The file an import of `base` refers to, trying extensions and index files
+	private async findTsFile(base: string): Promise<string | undefined> {
+		const extension = path.extname(base);
+		const candidates = [
+			...(COMPILED_EXTENSIONS[extension] ?? []).map(ext => base.slice(0, -extension.length) + ext),
+			base,
+			...TS_EXTENSIONS.map(ext => base + ext),
+			...TS_EXTENSIONS.map(ext => path.join(base, 'index' + ext))
+		];
+		for (const candidate of candidates) {
+			if (await isFile(candidate)) {
+				return candidate;
+			}
+		}
+		return undefined;
+	}
+
+	// The nearest tsconfig.json or jsconfig.json at or above a directory, without leaving the root
+	private findTsConfig(directory: string): Promise<TsPathConfig | undefined> {
+		let config = this.configs.get(directory);
+		if (!config) {
+			config = (async () => {
+				for (const name of ['tsconfig.json', 'jsconfig.json']) {
+					const file = path.join(directory, name);
+					if (await isFile(file)) {
+						return loadTsPathConfig(file);
+					}
+				}
+				const parent = path.dirname(directory);
+				return directory === this.rootPath || parent === directory || !this.isInsideRoot(directory)
+					? undefined
+					: this.findTsConfig(parent);
+			})();
+			this.configs.set(directory, config);
+		}
+		return config;
+	}
+
+	private async resolvePython(fromFile: string, reference: ImportReference): Promise<string[]> {
+		const level = reference.specifier.match(/^\.*/)![0].length;
+		const modulePath = reference.specifier.slice(level).split('.').filter(Boolean);
+
+		// Relative imports start from the file's package; absolute ones from the root, src/ or the file's directory
+		let bases: string[];
+		if (level > 0) {
+			let base = path.dirname(fromFile);
+			for (let i = 1; i < level; i++) {
+				base = path.dirname(base);
+			}
+			bases = [base];
+		} else {
+			bases = [...new Set([this.rootPath, path.join(this.rootPath, 'src'), path.dirname(fromFile)])];
+		}
+
+		for (const base of bases) {
+			const moduleBase = path.join(base, ...modulePath);
+			const files: string[] = [];
+			const moduleFile = await findPythonModule(moduleBase);
+			if (moduleFile) {
+				files.push(moduleFile);
+			}
+			// `from package import name` may import a submodule
+			if (await isDirectory(moduleBase)) {
+				for (const name of reference.names) {
+					const submodule = await findPythonModule(path.join(moduleBase, name));
+					if (submodule) {
+						files.push(submodule);
+					}
+				}
+			}
+			if (files.length > 0) {
+				return files;
+			}
+		}
+		return [];
+	}
+}
+
+async function findPythonModule(base: string): Promise<string | undefined> {
+	for (const candidate of [base + '.py', base + '.pyi', path.join(base, '__init__.py')]) {
+		if (await isFile(candidate)) {
+			return candidate;
+		}
+	}
+	return undefined;
+}
+
+// Read the baseUrl and paths from a tsconfig, following relative `extends`
+async function loadTsPathConfig(file: string, seen = new Set<string>()): Promise<TsPathConfig | undefined> {
+	if (seen.has(file)) {
+		return undefined;
+	}
+	seen.add(file);
+
+	let json: { extends?: unknown; compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> } };
+	try {
+		json = parseJsonWithComments(await readFile(file, 'utf-8')) as typeof json;
+	} catch (error) {
+		console.error(`Ignoring unreadable ${file}:`, error instanceof Error ? error.message : error);
+		return undefined;
+	}
+
+	const directory = path.dirname(file);
+	let inherited: TsPathConfig | undefined;
+	if (typeof json.extends === 'string' && json.extends.startsWith('.')) {
+		const parent = path.resolve(directory, json.extends);
+		inherited = await loadTsPathConfig(parent.endsWith('.json') ? parent : parent + '.json', seen);
+	}
+
+	const options = json.compilerOptions ?? {};
+	const baseUrl = options.baseUrl !== undefined ? path.resolve(directory, options.baseUrl) : inherited?.baseUrl;
+	if (options.paths) {
+		return { baseUrl, pathsBase: baseUrl ?? directory, paths: options.paths };
+	}
+	return inherited || baseUrl
+		? { baseUrl, pathsBase: inherited?.pathsBase ?? baseUrl!, paths: inherited?.paths ?? {} }
+		: undefined;
+}
+
+// Targets of the `paths` pattern that matches a specifier, preferring the longest prefix as TypeScript does
+function matchPaths(paths: Record<string, string[]>, specifier: string): string[] {
+	let best: { prefixLength: number; targets: string[] } | undefined;
+	for (const [pattern, targets] of Object.entries(paths)) {
+		const star = pattern.indexOf('*');
+		if (star < 0) {
+			if (pattern === specifier) {
+				return targets;
+			}
+			continue;
+		}
+		const prefix = pattern.slice(0, star);
+		const suffix = pattern.slice(star + 1);
+		if (
+			specifier.length >= prefix.length + suffix.length &&
+			specifier.startsWith(prefix) &&
+			specifier.endsWith(suffix) &&
+			(!best || prefix.length > best.prefixLength)
+		) {
+			const wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+			best = { prefixLength: prefix.length, targets: targets.map(target => target.replace('*', wildcard)) };
+		}
+	}
+	return best?.targets ?? [];
+}
@@ -0,0 +1,544 @@
+import * as path from "path";
+
+// Lightweight declaration scanner for TypeScript/JavaScript and Python.
+// This is not a full parser: strings and comments are masked out, then declarations
+// are found line by line and their extent is taken from brace matching (TS/JS) or
+// indentation (Python). It handles conventionally formatted code well enough to
+// point a ranged read at the right lines.
+
+export type OutlineLanguage = "typescript" | "python";
+
+export type SymbolKind =
+	| "function"
+	| "class"
+	| "method"
+	| "interface"
+	| "type"
+	| "enum"
+	| "namespace"
+	| "const";
+
+export interface OutlineSymbol {
+	kind: SymbolKind;
+	name: string;
+	startLine: number;
+	endLine: number;
+	children: OutlineSymbol[];
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, OutlineLanguage> = {
+	'.ts': "typescript",
+	'.tsx': "typescript",
+	'.mts': "typescript",
+	'.cts': "typescript",
+	'.js': "typescript",
+	'.jsx': "typescript",
+	'.mjs': "typescript",
+	'.cjs': "typescript",
+	'.py': "python",
+	'.pyi': "python",
+};
+
+export function getOutlineLanguage(filePath: string): OutlineLanguage | undefined {
+	return LANGUAGE_EXTENSIONS[path.extname(filePath).toLowerCase()];
+}
+
+export function outlineSource(content: string, language: OutlineLanguage): OutlineSymbol[] {
+	return language === "python" ? outlinePython(content) : outlineTypeScript(content);
+}
+
+// Offsets at which each line starts
+function getLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') {
+			starts.push(i + 1);
+		}
+	}
+	return starts;
+}
+
+// 0-based index of the line containing the offset
+function lineIndexAt(lineStarts: number[], offset: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (lineStarts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return low;
+}
+
+// Replace the contents of the given range with spaces, keeping newlines so offsets and lines still line up
+function blankRange(chars: string[], from: number, to: number): void {
+	for (let k = from; k < to && k < chars.length; k++) {
+		if (chars[k] !== '\n') {
+			chars[k] = ' ';
+		}
+	}
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript / JavaScript
+
+const REGEX_PRECEDING_KEYWORDS = new Set([
+	'return', 'typeof', 'instanceof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'yield', 'await', 'throw'
+]);
+
+// Blank out comments, strings, template literals and regex literals
+export function maskTypeScript(source: string): string {
+	const chars = source.split('');
+	const n = source.length;
+	let i = 0;
+
+	const skipString = (quote: string) => {
+		const start = i;
+		i++;
+		while (i < n && source[i] !== quote && source[i] !== '\n') {
+			i += source[i] === '\\' ? 2 : 1;
+		}
+		i++;
+		blankRange(chars, start + 1, Math.min(i - 1, n));
+	};
+
+	const skipTemplate = () => {
+		const start = i;
+		i++;
+		while (i < n && source[i] !== '`') {
+			if (source[i] === '\\') {
+				i += 2;
+			} else if (source[i] === '$' && source[i + 1] === '{') {
+				i += 2;
+				scanCode(true);
+			} else {
+				i++;
+			}
+		}
+		i++;
+		blankRange(chars, start + 1, Math.min(i - 1, n));
+	};
+
+	// A slash starts a regex unless it follows something that ends an expression
+	const isRegexStart = () => {
+		let j = i - 1;
+		while (j >= 0 && /\s/.test(chars[j])) {
+			j--;
+		}
+		if (j < 0) {
+			return true;
+		}
+		if (/[\w$]/.test(chars[j])) {
+			let k = j;
+			while (k >= 0 && /[\w$]/.test(chars[k])) {
+				k--;
+			}
+			return REGEX_PRECEDING_KEYWORDS.has(source.slice(k + 1, j + 1));
+		}
+		return !')]}'.includes(chars[j]);
+	};
+
+	const skipRegex = () => {
+		const start = i;
+		let j = i + 1;
+		let inClass = false;
+		while (j < n && source[j] !== '\n') {
+			if (source[j] === '\\') {
+				j += 2;
+				continue;
+			}
+			if (source[j] === '[') {
+				inClass = true;
+			} else if (source[j] === ']') {
+				inClass = false;
+			} else if (source[j] === '/' && !inClass) {
+				break;
+			}
+			j++;
+		}
+		if (j >= n || source[j] !== '/') {
+			// Not a regex after all; treat it as division
+			i++;
+			return;
+		}
+		blankRange(chars, start + 1, j);
+		i = j + 1;
+		while (i < n && /[a-z]/i.test(source[i])) {
+			i++;
+		}
+	};
+
+	function scanCode(untilClosingBrace: boolean): void {
+		let depth = 0;
+		while (i < n) {
+			const c = source[i];
+			const next = source[i + 1];
+			if (c === '/' && next === '/') {
+				const start = i;
+				while (i < n && source[i] !== '\n') {
+					i++;
+				}
+				blankRange(chars, start, i);
+			} else if (c === '/' && next === '*') {
+				const start = i;
+				const end = source.indexOf('*/', i + 2);
+				i = end < 0 ? n : end + 2;
+				blankRange(chars, start, i);
+			} else if (c === '"' || c === "'") {
+				skipString(c);
+			} else if (c === '`') {
+				skipTemplate();
+			} else if (c === '/' && isRegexStart()) {
+				skipRegex();
+			} else {
+				if (untilClosingBrace) {
+					if (c === '{') {
+						depth++;
+					} else if (c === '}') {
+						if (depth === 0) {
+							i++;
+							return;
+						}
+						depth--;
+					}
+				}
+				i++;
+			}
+		}
+	}
+
+	scanCode(false);
+	return chars.join('');
+}
+
+// Index of the brace that closes the one at `open`, or the end of the text
+function findClosingBrace(masked: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < masked.length; i++) {
+		if (masked[i] === '{') {
+			depth++;
+		} else if (masked[i] === '}') {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+	return masked.length - 1;
+}
+
+// End offset of a declaration that has a braced body, such as a function or class.
+// Braces that follow a type annotation (`: {`, `| {`) are skipped as type literals.
+function findBodyEnd(masked: string, start: number): number {
+	let depth = 0;
+	let angle = 0;
+	let prev = '';
+	for (let i = start; i < masked.length; i++) {
+		const c = masked[i];
+		if (/\s/.test(c)) {
+			continue;
+		}
+		if (c === '(' || c === '[') {
+			depth++;
+		} else if (c === ')' || c === ']') {
+			depth--;
+		} else if (depth === 0 && c === '<' && /[\w$]/.test(prev)) {
+			angle++;
+		} else if (depth === 0 && c === '>' && angle > 0 && prev !== '=') {
+			angle--;
+		} else if (depth === 0 && angle === 0) {
+			if (c === '{') {
+				const close = findClosingBrace(masked, i);
+				if (':|&,'.includes(prev)) {
+					i = close;
+					prev = '}';
+					continue;
+				}
+				return close + 1;
+			}
+			if (c === ';') {
+				return i + 1;
+			}
+			if (c === '}') {
+				// Reached the end of the enclosing block without finding a body
+				return i;
+			}
+		}
+		prev = c;
+	}
+	return masked.length;
+}
+
+const CONTINUES_AFTER = '=,(+-*/%&|^!?:.<>[{';
+const CONTINUES_BEFORE = '.?:=+-*/%&|^,>';
+
+// End offset of a statement such as `const x = ...` or `type T = ...`,
+// ending at a semicolon or at a line break where the statement is complete
+function findStatementEnd(masked: string, start: number): number {
+	let depth = 0;
+	let prev = '';
+	for (let i = start; i < masked.length; i++) {
+		const c = masked[i];
+		if ('({['.includes(c)) {
+			depth++;
+		} else if (')}]'.includes(c)) {
+			if (depth === 0) {
+				return i;
+			}
+			depth--;
+		} else if (c === ';' && depth === 0) {
+			return i + 1;
+		} else if (c === '\n' && depth === 0 && prev && !CONTINUES_AFTER.includes(prev)) {
+			let j = i + 1;
+			while (j < masked.length && /\s/.test(masked[j])) {
+				j++;
+			}
+			if (j >= masked.length || !CONTINUES_BEFORE.includes(masked[j])) {
+				return i;
+			}
+		}
+		if (!/\s/.test(c)) {
+			prev = c;
+		}
+	}
+	return masked.length;
+}
+
+type TsContext = "module" | "class" | "function";
+
+interface DeclarationMatch {
+	kind: SymbolKind;
+	name: string;
+	hasBody: boolean;
+}
+
+const METHOD_MODIFIERS = '(?:(?:public|private|protected|static|async|readonly|abstract|override|declare|accessor|get|set)\\s+)*';
+const NOT_METHOD_NAMES = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'super', 'with', 'await', 'typeof']);
+
+function matchTsDeclaration(line: string, context: TsContext): DeclarationMatch | undefined {
+	let m: RegExpMatchArray | null;
+
+	if (context === "class") {
+		m = line.match(new RegExp(`^${METHOD_MODIFIERS}\\*?\\s*(#?[A-Za-z_$][\\w$]*)\\s*\\??\\s*(?:<[^(]*>)?\\s*\\(`));
+		if (m && !NOT_METHOD_NAMES.has(m[1])) {
+			return { kind: "method", name: m[1], hasBody: true };
+		}
+		m = line.match(new RegExp(`^${METHOD_MODIFIERS}(#?[A-Za-z_$][\\w$]*)\\s*[?!]?\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|\\(|[\\w$]+\\s*=>)`));
+		if (m) {
+			return { kind: "method", name: m[1], hasBody: false };
+		}
+		return undefined;
+	}
+
+	if ((m = line.match(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/))) {
+		return { kind: "function", name: m[1], hasBody: true };
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/))) {
+		return { kind: "class", name: m[1], hasBody: true };
+	}
+	if (context === "function") {
+		return undefined;
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/))) {
+		return { kind: "interface", name: m[1], hasBody: true };
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<.*>)?\s*=/))) {
+		return { kind: "type", name: m[1], hasBody: false };
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/))) {
+		return { kind: "enum", name: m[1], hasBody: true };
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+([A-Za-z_$][\w$.]*)\s*\{/))) {
+		return { kind: "namespace", name: m[1], hasBody: true };
+	}
+	if ((m = line.match(/^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\(|[\w$]+\s*=>)/))) {
+		return { kind: "function", name: m[1], hasBody: false };
+	}
+	if ((m = line.match(/^export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/))) {
+		return { kind: "const", name: m[1], hasBody: false };
+	}
+	return undefined;
+}
+
+function outlineTypeScript(content: string): OutlineSymbol[] {
+	const masked = maskTypeScript(content);
+	const lineStarts = getLineStarts(masked);
+	const maskedLines = masked.split('\n');
+
+	// Brace depth at the start of each line
+	const lineDepths: number[] = [];
+	let depth = 0;
+	for (const line of maskedLines) {
+		lineDepths.push(depth);
+		for (const c of line) {
+			if (c === '{') {
+				depth++;
+			} else if (c === '}') {
+				depth = Math.max(0, depth - 1);
+			}
+		}
+	}
+
+	const scan = (fromLine: number, toLine: number, atDepth: number, context: TsContext): OutlineSymbol[] => {
+		const symbols: OutlineSymbol[] = [];
+		for (let line = fromLine; line <= toLine; line++) {
+			if (lineDepths[line] !== atDepth) {
+				continue;
+			}
+			const text = maskedLines[line].trim();
+			const match = text && matchTsDeclaration(text, context);
+			if (!match) {
+				continue;
+			}
+
+			const start = lineStarts[line] + maskedLines[line].indexOf(text[0]);
+			const end = match.hasBody ? findBodyEnd(masked, start) : findStatementEnd(masked, start);
+			const endLine = Math.min(lineIndexAt(lineStarts, Math.max(start, end - 1)), toLine);
+
+			let children: OutlineSymbol[] = [];
+			if (match.kind === "class") {
+				children = scan(line + 1, endLine, atDepth + 1, "class");
+			} else if (match.kind === "namespace") {
+				children = scan(line + 1, endLine, atDepth + 1, "module");
+			} else if (match.kind === "function" || match.kind === "method") {
+				children = scan(line + 1, endLine, atDepth + 1, "function");
+			}
+
+			symbols.push({
+				kind: match.kind,
+				name: match.name,
+				startLine: line + 1,
+				endLine: endLine + 1,
+				children
+			});
+			line = endLine;
+		}
+		return symbols;
+	};
+
+	return scan(0, maskedLines.length - 1, 0, "module");
+}
+
+// ---------------------------------------------------------------------------
+// Python
+
+// Blank out comments and string literals, including triple-quoted strings
+export function maskPython(source: string): string {
+	const chars = source.split('');
+	const n = source.length;
+	let i = 0;
+	while (i < n) {
+		const c = source[i];
+		if (c === '#') {
+			const start = i;
+			while (i < n && source[i] !== '\n') {
+				i++;
+			}
+			blankRange(chars, start, i);
+		} else if (c === '"' || c === "'") {
+			const triple = source.startsWith(c.repeat(3), i);
+			const quote = triple ? c.repeat(3) : c;
+			const start = i;
+			i += quote.length;
+			while (i < n && !source.startsWith(quote, i) && (triple || source[i] !== '\n')) {
+				i += source[i] === '\\' ? 2 : 1;
+			}
+			i += quote.length;
+			// Blank the quotes too, so a closing quote at the start of a line doesn't look like a dedent
+			blankRange(chars, start, Math.min(i, n));
+		} else {
+			i++;
+		}
+	}
+	return chars.join('');
+}
+
+function outlinePython(content: string): OutlineSymbol[] {
+	const maskedLines = maskPython(content).split('\n');
+
+	// Indentation of each line, or -1 for blank lines and lines inside open brackets
+	const indents: number[] = [];
+	let depth = 0;
+	for (const line of maskedLines) {
+		const blank = line.trim() === '';
+		indents.push(blank || depth > 0 ? -1 : line.length - line.trimStart().length);
+		for (const c of line) {
+			if ('([{'.includes(c)) {
+				depth++;
+			} else if (')]}'.includes(c)) {
+				depth = Math.max(0, depth - 1);
+			}
+		}
+	}
+
+	// Last line of the block introduced at `line`: everything more indented that follows
+	const findBlockEnd = (line: number, toLine: number): number => {
+		let end = line;
+		for (let next = line + 1; next <= toLine; next++) {
+			if (indents[next] === -1) {
+				if (maskedLines[next].trim() !== '') {
+					end = next;
+				}
+				continue;
+			}
+			if (indents[next] <= indents[line]) {
+				break;
+			}
+			end = next;
+		}
+		return end;
+	};
+
+	const scan = (fromLine: number, toLine: number, parentIndent: number, inClass: boolean): OutlineSymbol[] => {
+		const symbols: OutlineSymbol[] = [];
+		for (let line = fromLine; line <= toLine; line++) {
+			const indent = indents[line];
+			if (indent <= parentIndent) {
+				continue;
+			}
+			const text = maskedLines[line].trim();
+
+			const decl = text.match(/^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/);
+			if (decl) {
+				const endLine = findBlockEnd(line, toLine);
+				// Include decorators directly above the declaration
+				let startLine = line;
+				while (startLine > fromLine && indents[startLine - 1] === indent && maskedLines[startLine - 1].trim().startsWith('@')) {
+					startLine--;
+				}
+				const isClass = decl[1] === "class";
+				symbols.push({
+					kind: isClass ? "class" : inClass ? "method" : "function",
+					name: decl[2],
+					startLine: startLine + 1,
+					endLine: endLine + 1,
+					children: scan(line + 1, endLine, indent, isClass)
+				});
+				line = endLine;
+				continue;
+			}
+
+			const constant = parentIndent < 0 && indent === 0 && text.match(/^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/);
+			if (constant) {
+				let endLine = line;
+				while (endLine < toLine && indents[endLine + 1] === -1 && maskedLines[endLine + 1].trim() !== '') {
+					endLine++;
+				}
+				symbols.push({
+					kind: "const",
+					name: constant[1],
+					startLine: line + 1,
+					endLine: endLine + 1,
+					children: []
+				});
+				line = endLine;
+			}
+		}
+		return symbols;
+	};
+
+	return scan(0, maskedLines.length - 1, -1, false);
+}
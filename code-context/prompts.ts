@@ -0,0 +1,178 @@
+import * as os from "os";
+import * as path from "path";
+import { readdir, readFile } from "fs/promises";
+import { z } from "zod";
+
+// Prompt templates: built-in prompts plus JSON files from a prompts directory.
+//
+// Templates fill in `{{arg}}` with the prompt's arguments, include `{{#arg}}...{{/arg}}`
+// only when the argument was given, and embed live data with `{{tool:arg}}`, e.g.
+// `{{analyze_directory:path}}` inserts the analysis of the directory passed as `path`.
+
+// Default location for user prompt files, overridden with --prompts-dir
+export const DEFAULT_PROMPTS_DIR = path.join(
+	process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'),
+	'cogniteration',
+	'code-context',
+	'prompts'
+);
+
+const PromptArgumentSchema = z.object({
+	name: z.string().regex(/^\w+$/, 'Argument names may only contain letters, digits and underscores'),
+	description: z.string().optional(),
+	required: z.boolean().optional()
+});
+
+export const PromptTemplateSchema = z.object({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	arguments: z.array(PromptArgumentSchema).default([]),
+	messages: z.array(z.object({
+		role: z.enum(["user", "assistant"]),
+		text: z.string()
+	})).min(1)
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+// Produces the text for an embed, given the value of the argument it names
+export type PromptEmbed = (value: string) => Promise<string>;
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+	{
+		name: "analyze-codebase",
+		description: "Analyzes the codebase structure, providing guidance on token counts and file sizes",
+		arguments: [
+			{ name: "path", description: "Directory to analyze; its token counts are included in the prompt" },
+			{ name: "focus", description: "Area of the codebase to concentrate on" },
+			{ name: "budget", description: "Token budget for the files to read" }
+		],
+		messages: [
+			{
+				role: "user",
+				text: `When analyzing codebases using code-context tools:
+
+1. Start with analyzing the directory structure:
+   - Use analyze_directory to get token counts and line counts
+   - Pay attention to file sizes to avoid token limit issues
+   - Be mindful of binary files and .gitignore rules
+
+2. When reading files:
+   - Check token counts before loading large files
+   - Use read_files selectively for relevant content
+   - Consider loading files in batches if needed
+
+3. Provide clear summaries:
+   - Total size of the codebase
+   - Largest files that need special handling
+   - Key files that warrant detailed review
+
+Remember: The tools handle .gitignore rules and binary file detection automatically.
+{{#focus}}
+Focus the analysis on: {{focus}}
+{{/focus}}{{#budget}}
+Keep the files you read within a budget of {{budget}} tokens; pack_context can pick files that fit.
+{{/budget}}{{#path}}
+Current analysis of {{path}}:
+
+{{analyze_directory:path}}
+{{/path}}`
+			}
+		]
+	}
+];
+
+// Read every *.json prompt file in a directory; invalid files are logged and skipped
+export async function loadPromptFiles(directory: string): Promise<PromptTemplate[]> {
+	let names: string[];
+	try {
+		names = (await readdir(directory)).filter(name => name.endsWith('.json')).sort();
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			console.error(`Error reading prompts directory ${directory}:`, error);
+		}
+		return [];
+	}
+
+	const prompts: PromptTemplate[] = [];
+	for (const name of names) {
+		const file = path.join(directory, name);
+		try {
+			const parsed = PromptTemplateSchema.safeParse(JSON.parse(await readFile(file, 'utf-8')));
+			if (!parsed.success) {
+				throw new Error(`Invalid prompt: ${parsed.error}`);
+			}
+			prompts.push(parsed.data);
+		} catch (error) {
+			console.error(`Skipping prompt file ${file}:`, error instanceof Error ? error.message : error);
+		}
+	}
+	return prompts;
+}
+
+// Built-in prompts followed by user prompts; a user prompt replaces a built-in one with the same name
+export async function loadPrompts(directory: string): Promise<PromptTemplate[]> {
+	const prompts = new Map(BUILTIN_PROMPTS.map(prompt => [prompt.name, prompt]));
+	for (const prompt of await loadPromptFiles(directory)) {
+		prompts.set(prompt.name, prompt);
+	}
+	return [...prompts.values()];
+}
+
+// Fill a template's text in with the given arguments and embeds
+async function renderText(
+	text: string,
+	args: Record<string, string>,
+	embeds: Record<string, PromptEmbed>
+): Promise<string> {
+	const has = (name: string) => args[name] !== undefined && args[name] !== '';
+
+	// Sections first, so embeds inside a skipped section never run
+	const withSections = text.replace(
+		/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+		(_match, name: string, body: string) => has(name) ? body : ''
+	);
+
+	const parts: (string | Promise<string>)[] = [];
+	let last = 0;
+	for (const match of withSections.matchAll(/\{\{(?:(\w+):)?(\w+)\}\}/g)) {
+		const [placeholder, embedName, argName] = match;
+		parts.push(withSections.slice(last, match.index));
+		last = match.index! + placeholder.length;
+
+		if (embedName === undefined) {
+			parts.push(args[argName] ?? '');
+			continue;
+		}
+		const embed = embeds[embedName];
+		if (!embed) {
+			throw new Error(`Unknown embed in prompt template: ${embedName}`);
+		}
+		parts.push(has(argName)
+			? embed(args[argName]).catch(error =>
+				`[${embedName} failed: ${error instanceof Error ? error.message : String(error)}]`)
+			: '');
+	}
+	parts.push(withSections.slice(last));
+
+	return (await Promise.all(parts)).join('');
+}
+
+// Render a prompt's messages, checking that required arguments were given
+export async function renderPrompt(
+	prompt: PromptTemplate,
+	args: Record<string, string>,
+	embeds: Record<string, PromptEmbed>
+): Promise<{ role: "user" | "assistant"; text: string }[]> {
+	for (const argument of prompt.arguments) {
+		if (argument.required && !args[argument.name]) {
+			throw new Error(`Missing required argument for prompt ${prompt.name}: ${argument.name}`);
+		}
+	}
+
+	const messages = [];
+	for (const message of prompt.messages) {
+		messages.push({ role: message.role, text: await renderText(message.text, args, embeds) });
+	}
+	return messages;
+}
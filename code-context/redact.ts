@@ -0,0 +1,93 @@
+// Finds credentials in file contents and replaces them with labeled placeholders such as
+// [REDACTED:aws-access-key], so they aren't passed on to the model. Detection is pattern
+// based: well-known token formats are always redacted, while values assigned to names like
+// API_SECRET or password are only redacted when they look random enough to be a real secret.
+
+export interface RedactionResult {
+	content: string;
+	redactions: number;
+}
+
+interface SecretPattern {
+	label: string;
+	pattern: RegExp;
+	// Capture group holding the secret; the whole match when not set
+	group?: number;
+}
+
+// Checked in order; placeholders contain no characters the later patterns would match
+const SECRET_PATTERNS: SecretPattern[] = [
+	// A whole key block, or the part of one a ranged read cut off at either end
+	{
+		label: "private-key",
+		pattern: /-----BEGIN[A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END[A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----|[\s\S]*$)/g
+	},
+	{ label: "private-key", pattern: /^[A-Za-z0-9+/=\s]*-----END[A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g },
+	{ label: "aws-access-key", pattern: /\b(?:AKIA|ASIA|ABIA|ACCA|AGPA|AIDA|AIPA|ANPA|ANVA|AROA|APKA)[A-Z0-9]{16}\b/g },
+	{
+		label: "aws-secret-key",
+		pattern: /\baws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi,
+		group: 1
+	},
+	{ label: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+	{ label: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ label: "api-key", pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{16,}|\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{32,}/g },
+	{ label: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+	{ label: "bearer-token", pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/g, group: 1 },
+	// Names like DB_PASSWORD, "clientSecret" or api-key, assigned with =, :, := or =>
+	{
+		label: "secret",
+		pattern: /(["']?)([\w.-]*(?:secret|passw(?:or)?d|pwd|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w-]*)\1[ \t]*(?::=|=>|[:=])[ \t]*(["'`]?)([A-Za-z0-9+/=_.~-]{16,})\3(?=[\s"'`,;)}\]]|$)/gim,
+		group: 4
+	}
+];
+
+// Values shorter than this, less random than MIN_ENTROPY bits per character or without any
+// digits are taken to be placeholders or references (e.g. "your-api-key-here") rather than secrets
+const MIN_SECRET_LENGTH = 16;
+const MIN_ENTROPY = 3.5;
+
+// Shannon entropy of a string in bits per character
+function entropy(value: string): number {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+	let bits = 0;
+	for (const count of counts.values()) {
+		const p = count / value.length;
+		bits -= p * Math.log2(p);
+	}
+	return bits;
+}
+
+function looksRandom(value: string): boolean {
+	return value.length >= MIN_SECRET_LENGTH && entropy(value) >= MIN_ENTROPY && /\d/.test(value);
+}
+
+// With keepLines, a secret spanning several lines leaves as many line breaks after its
+// placeholder, so line numbers in the result still match the original
+export function redactSecrets(text: string, keepLines = false): RedactionResult {
+	let content = text;
+	let redactions = 0;
+
+	for (const { label, pattern, group } of SECRET_PATTERNS) {
+		content = content.replace(pattern, (...match: string[]) => {
+			const secret = group === undefined ? match[0] : match[group];
+			// Assigned values are only secrets if they look random; known formats always are
+			if (label === "secret" && !looksRandom(secret)) {
+				return match[0];
+			}
+			redactions++;
+			const placeholder = `[REDACTED:${label}]` + (keepLines ? secret.replace(/[^\n]/g, '') : '');
+			if (group === undefined) {
+				return placeholder;
+			}
+			// Keep the rest of the match, such as the name or "Bearer"
+			const start = match[0].lastIndexOf(secret);
+			return match[0].slice(0, start) + placeholder + match[0].slice(start + secret.length);
+		});
+	}
+
+	return { content, redactions };
+}
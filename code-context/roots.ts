@@ -0,0 +1,98 @@
+// code-context/roots.ts and code-edit/roots.ts are identical copies, as the two packages are
+// published separately. Change both together.
+
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { Config, DirectoryConfig } from "./config.js";
+import { isWithin, type Sandbox } from "./sandbox.js";
+
+// Follows the roots a client exposes (the folders open in the editor, for example) so the
+// allowed directories change with the project instead of being fixed at startup. In
+// "intersect" mode only the parts of the roots inside configured directories are allowed;
+// in "replace" mode the roots are used instead of the configured directories.
+
+export type RootsMode = Config["roots"];
+
+// The allowed directories for a set of root paths. Roots keep the alias of a configured
+// directory at the same path, and stay read-only inside a read-only configured directory.
+export function directoriesForRoots(
+	rootPaths: string[],
+	configured: DirectoryConfig[],
+	mode: RootsMode
+): DirectoryConfig[] {
+	if (mode === "off") {
+		return configured;
+	}
+
+	const directories = new Map<string, DirectoryConfig>();
+	for (const rootPath of rootPaths) {
+		const containing = configured.filter(dir => isWithin(dir.path, rootPath));
+		if (mode === "intersect" && containing.length === 0) {
+			continue;
+		}
+		const innermost = containing.sort((a, b) => b.path.length - a.path.length)[0];
+		directories.set(rootPath, {
+			path: rootPath,
+			alias: innermost?.path === rootPath ? innermost.alias : undefined,
+			readOnly: innermost?.readOnly ?? false
+		});
+	}
+
+	// Configured directories inside a root are allowed as they are
+	if (mode === "intersect") {
+		for (const dir of configured) {
+			if (!directories.has(dir.path) && rootPaths.some(rootPath => isWithin(rootPath, dir.path))) {
+				directories.set(dir.path, dir);
+			}
+		}
+	}
+
+	return [...directories.values()];
+}
+
+// Request the client's roots once it has initialized and again whenever it reports they
+// changed, and apply them to the sandbox. Clients without roots support keep the
+// configured directories.
+export function followClientRoots(
+	server: Server,
+	sandbox: Sandbox,
+	configured: DirectoryConfig[],
+	mode: RootsMode,
+	onChange?: (directories: DirectoryConfig[]) => void
+): void {
+	if (mode === "off") {
+		return;
+	}
+
+	// Requests can overlap when notifications arrive quickly; only the latest is applied
+	let latest = 0;
+	const update = async () => {
+		if (!server.getClientCapabilities()?.roots) {
+			console.error("Client does not provide roots; using the configured directories");
+			return;
+		}
+		const request = ++latest;
+		try {
+			const { roots } = await server.listRoots();
+			if (request !== latest) {
+				return;
+			}
+			const rootPaths = roots
+				.filter(root => root.uri.startsWith('file://'))
+				.map(root => path.normalize(fileURLToPath(root.uri)));
+			const directories = directoriesForRoots(rootPaths, configured, mode);
+			sandbox.setDirectories(directories);
+			console.error("Allowed directories from client roots:", directories.map(dir => dir.path));
+			onChange?.(directories);
+		} catch (error) {
+			console.error("Error requesting roots from the client:", error instanceof Error ? error.message : error);
+		}
+	};
+
+	server.oninitialized = () => {
+		void update();
+	};
+	server.setNotificationHandler(RootsListChangedNotificationSchema, update);
+}
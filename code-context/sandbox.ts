@@ -0,0 +1,146 @@
+// code-context/sandbox.ts and code-edit/sandbox.ts are identical copies, as the two packages are
+// published separately. Change both together.
+
+import * as path from "path";
+import { realpathSync } from "fs";
+import { lstat, realpath } from "fs/promises";
+import ignore, { type Ignore } from "ignore";
+import { resolveAlias, type DirectoryConfig } from "./config.js";
+
+// Decides which paths the tools may touch. A path is allowed when it lies inside an allowed
+// directory segment by segment (so /work/app doesn't admit /work/app-secrets), when the real
+// path behind any symlinks is inside one too, and when no deny pattern matches it.
+
+export type Access = "read" | "write";
+
+interface SandboxRoot extends DirectoryConfig {
+	// The directory with symlinks resolved
+	realPath: string;
+}
+
+// Whether `child` is `parent` or inside it, comparing whole path segments
+export function isWithin(parent: string, child: string): boolean {
+	const relative = path.relative(parent, child);
+	return relative === '' || (!relative.startsWith('..' + path.sep) && relative !== '..' && !path.isAbsolute(relative));
+}
+
+export class Sandbox {
+	private roots: SandboxRoot[] = [];
+	private readonly deny: Ignore;
+
+	constructor(directories: DirectoryConfig[], denyPatterns: string[] = []) {
+		this.setDirectories(directories);
+		this.deny = ignore().add(denyPatterns);
+	}
+
+	get directories(): DirectoryConfig[] {
+		return this.roots;
+	}
+
+	// Replace the allowed directories; paths are checked against the new ones from then on
+	setDirectories(directories: DirectoryConfig[]): void {
+		this.roots = directories.map(dir => {
+			let realPath = dir.path;
+			try {
+				realPath = realpathSync(dir.path);
+			} catch {
+				// A missing directory can't contain anything yet; keep its configured path
+			}
+			return { ...dir, realPath };
+		});
+	}
+
+	// The innermost allowed directory containing a path, if any
+	rootOf(filePath: string): DirectoryConfig | undefined {
+		return this.innermost(this.roots.filter(root => isWithin(root.path, filePath)));
+	}
+
+	// Whether a deny pattern matches a path, relative to any allowed directory containing it
+	isDenied(filePath: string, isDirectory = false): boolean {
+		for (const root of this.roots) {
+			for (const base of new Set([root.path, root.realPath])) {
+				if (base === filePath || !isWithin(base, filePath)) {
+					continue;
+				}
+				const relative = path.relative(base, filePath).split(path.sep).join('/');
+				if (this.deny.ignores(isDirectory ? `${relative}/` : relative)) {
+					return true;
+				}
+			}
+		}
+		return false;
+	}
+
+	// Check a requested path and return it as an absolute, normalized path.
+	// Throws if it is outside the allowed directories, reaches outside them through a symlink,
+	// matches a deny pattern, or is in a read-only directory when writing.
+	async resolve(requestedPath: string, access: Access = "read"): Promise<string> {
+		const absolute = path.normalize(path.resolve(resolveAlias(requestedPath, this.roots)));
+
+		if (this.roots.length === 0) {
+			throw new Error(`Access denied - no allowed directories have been set: ${absolute}`);
+		}
+		const root = this.rootOf(absolute);
+		if (!root) {
+			throw new Error(`Access denied - path outside allowed directories: ${absolute}`);
+		}
+
+		const real = await resolveRealPath(absolute);
+		const realRoot = this.innermost(this.roots.filter(r => isWithin(r.realPath, real)));
+		if (!realRoot) {
+			throw new Error(`Access denied - symlink points outside allowed directories: ${absolute} -> ${real}`);
+		}
+
+		if (this.isDenied(absolute) || this.isDenied(real)) {
+			throw new Error(`Access denied - path matches a deny pattern: ${absolute}`);
+		}
+
+		if (access === "write") {
+			const readOnly = [root, realRoot].find(r => r.readOnly);
+			if (readOnly) {
+				throw new Error(`Access denied - directory is read-only: ${readOnly.path}`);
+			}
+		}
+
+		return absolute;
+	}
+
+	// When allowed directories are nested, the innermost one decides
+	private innermost<T extends DirectoryConfig>(roots: T[]): T | undefined {
+		return roots.sort((a, b) => b.path.length - a.path.length)[0];
+	}
+}
+
+// The real path of a file, or for a path that doesn't exist yet, the real path of its nearest
+// existing parent joined with the rest, so new files can't be created through a symlinked directory
+async function resolveRealPath(absolute: string): Promise<string> {
+	const missing: string[] = [];
+	let current = absolute;
+	while (true) {
+		try {
+			return path.join(await realpath(current), ...missing.reverse());
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				throw error;
+			}
+		}
+		// A dangling symlink can't be followed to check where it points
+		if (await isSymlink(current)) {
+			throw new Error(`Access denied - cannot resolve symlink: ${current}`);
+		}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return absolute;
+		}
+		missing.push(path.basename(current));
+		current = parent;
+	}
+}
+
+async function isSymlink(filePath: string): Promise<boolean> {
+	try {
+		return (await lstat(filePath)).isSymbolicLink();
+	} catch {
+		return false;
+	}
+}
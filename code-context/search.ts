@@ -0,0 +1,75 @@
+// Line-based code search helpers: build the pattern, find matching lines with
+// surrounding context, and format the results for one file
+
+export type SearchMode = "literal" | "regex";
+
+export interface SearchLine {
+	lineNumber: number;
+	text: string;
+	isMatch: boolean;
+}
+
+// A run of consecutive lines: matches plus their context, merged when they overlap
+export type SearchHunk = SearchLine[];
+
+export interface FileSearchResult {
+	matchCount: number;
+	hunks: SearchHunk[];
+}
+
+// Lines longer than this are cut in the output so minified code doesn't swamp the results
+const MAX_LINE_LENGTH = 500;
+
+export function buildSearchPattern(query: string, mode: SearchMode, caseSensitive: boolean): RegExp {
+	const source = mode === "literal" ? query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : query;
+	try {
+		return new RegExp(source, caseSensitive ? 'u' : 'iu');
+	} catch (error) {
+		throw new Error(`Invalid search pattern: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+export function searchContent(content: string, pattern: RegExp, contextLines: number): FileSearchResult {
+	const lines = content.split('\n');
+	const matchIndexes: number[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		if (pattern.test(lines[i])) {
+			matchIndexes.push(i);
+		}
+	}
+
+	const hunks: SearchHunk[] = [];
+	let current: SearchHunk | undefined;
+	let currentEnd = -1;
+	const matchSet = new Set(matchIndexes);
+
+	for (const index of matchIndexes) {
+		const start = Math.max(0, index - contextLines);
+		const end = Math.min(lines.length - 1, index + contextLines);
+		if (!current || start > currentEnd + 1) {
+			current = [];
+			hunks.push(current);
+			currentEnd = start - 1;
+		}
+		for (let i = currentEnd + 1; i <= end; i++) {
+			current.push({ lineNumber: i + 1, text: lines[i], isMatch: matchSet.has(i) });
+		}
+		currentEnd = Math.max(currentEnd, end);
+	}
+
+	return { matchCount: matchIndexes.length, hunks };
+}
+
+// Format one file's hunks grep-style: `12:` marks a match, `11-` a context line, `--` separates hunks
+export function formatFileSearchResult(filePath: string, result: FileSearchResult): string {
+	const body = result.hunks.map(hunk =>
+		hunk.map(line => {
+			const text = line.text.length > MAX_LINE_LENGTH
+				? `${line.text.slice(0, MAX_LINE_LENGTH)}…`
+				: line.text;
+			return `${line.lineNumber}${line.isMatch ? ':' : '-'}${text}`;
+		}).join('\n')
+	).join('\n--\n');
+
+	return `<matches><source>${filePath}</source>\n${body}\n</matches>`;
+}
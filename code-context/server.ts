@@ -1,53 +1,206 @@
 #!/usr/bin/env bun
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
 	CallToolRequestSchema,
 	ListToolsRequestSchema,
 	ToolSchema,
 	ListPromptsRequestSchema,
 	GetPromptRequestSchema,
+	ListResourcesRequestSchema,
+	ListResourceTemplatesRequestSchema,
+	ReadResourceRequestSchema,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+	type CallToolRequest,
+	type CallToolResult,
+	type GetPromptRequest,
+	type GetPromptResult,
+	type ListPromptsResult,
+	type ListResourcesResult,
+	type ListResourceTemplatesResult,
+	type ListToolsResult,
+	type ReadResourceRequest,
+	type ReadResourceResult,
+	type ServerNotification,
+	type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import * as path from "path";
 import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createHash } from "crypto";
 import { readdir, stat, readFile } from "fs/promises";
-import { tokenize, TokenizerModel, TOKENIZER_OPTIONS } from "./tokenizer.js";
+import {
+	tokenize,
+	isEstimated,
+	isKnownModel,
+	describeTokenizer,
+	resolveLocalTokenizer,
+	TOKENIZER_OPTIONS,
+	DEFAULT_MODEL,
+	type TokenizerModel
+} from "./tokenizer.js";
+import { getOutlineLanguage, outlineSource, type OutlineSymbol } from "./outline.js";
+import { buildSearchPattern, searchContent, formatFileSearchResult } from "./search.js";
+import { checkFile, decodeText, type FileCheck } from "./encoding.js";
+import { getTokenCountCache, getCacheStats, clearTokenCountCache, type CacheStats } from "./cache.js";
+import { FileWatcher } from "./watcher.js";
+import { extractImports, ImportResolver } from "./imports.js";
+import { getChangedFiles, getFileDiffs, getRecentFiles, type ChangedFile, type ChangeScope } from "./git.js";
+import { loadPrompts, renderPrompt, DEFAULT_PROMPTS_DIR, type PromptEmbed } from "./prompts.js";
+import { loadConfig, checkConfiguredTools, type Config, type DirectoryConfig } from "./config.js";
+import { Sandbox, isWithin } from "./sandbox.js";
+import { followClientRoots, type RootsMode } from "./roots.js";
+import { parseTransportOptions, serveHttp, TRANSPORT_FLAGS, type TransportOptions } from "./http.js";
+import { redactSecrets } from "./redact.js";
 import ignore from "ignore";
 
 // Parse command line arguments
 interface CliOptions {
-	allowedDirectories: string[];
+	directories: DirectoryConfig[];
 	tokenizer: TokenizerModel;
+	maxFileSize: number;
+	promptsDir: string;
+	ignorePatterns: string[];
+	denyPatterns: string[];
+	redactSecrets: boolean;
+	timeLimit: number;
+	rootsMode: RootsMode;
+	transport: TransportOptions;
+	config: Config;
+}
+
+// Files larger than this are skipped unless a range is requested
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+const DEFAULT_HTTP_PORT = 3100;
+
+// Seconds a directory analysis or search runs before returning partial results. Clients stop
+// waiting after a while (60 seconds by default in the MCP SDK) and drop any later response.
+const DEFAULT_TIME_LIMIT = 50;
+
+// Parse a size such as 500000, 512k or 2m into bytes
+function parseSize(value: string): number {
+	const match = value.trim().match(/^(\d+)([km]?)b?$/i);
+	if (!match) {
+		throw new Error(`Invalid size: ${value} (expected bytes, or a number with a k or m suffix)`);
+	}
+	const multiplier = { '': 1, k: 1024, m: 1024 * 1024 }[match[2].toLowerCase() as '' | 'k' | 'm'];
+	return Number(match[1]) * multiplier;
 }
 
 function parseCliArgs(): CliOptions {
 	const args = process.argv.slice(2);
 	const tokenizerFlag = "--tokenizer=";
+	const maxFileSizeFlag = "--max-file-size=";
+	const promptsDirFlag = "--prompts-dir=";
+	const configFlag = "--config=";
+	const denyFlag = "--deny=";
+	const redactFlag = "--redact-secrets";
+	const rootsFlag = "--roots=";
+	const timeLimitFlag = "--time-limit=";
+	const flags = [
+		tokenizerFlag, maxFileSizeFlag, promptsDirFlag, configFlag, denyFlag, redactFlag, rootsFlag, timeLimitFlag,
+		...TRANSPORT_FLAGS
+	];
+
+	// Load the config file; flags override its settings
+	const configArg = args.find(arg => arg.startsWith(configFlag));
+	let config: Config;
+	try {
+		config = loadConfig(configArg?.slice(configFlag.length));
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+	// Relative paths in the config are relative to the config file
+	const configDir = config.file ? path.dirname(config.file) : process.cwd();
+
+	// Find max file size if specified
+	const maxFileSizeArg = args.find(arg => arg.startsWith(maxFileSizeFlag));
+	const configuredMaxFileSize = config.codeContext.maxFileSize;
+	const maxFileSize = maxFileSizeArg
+		? parseSize(maxFileSizeArg.slice(maxFileSizeFlag.length))
+		: typeof configuredMaxFileSize === 'string'
+			? parseSize(configuredMaxFileSize)
+			: configuredMaxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+	// Find time limit if specified; 0 turns it off
+	const timeLimitArg = args.find(arg => arg.startsWith(timeLimitFlag));
+	const timeLimit = timeLimitArg
+		? Number(timeLimitArg.slice(timeLimitFlag.length))
+		: config.codeContext.timeLimit ?? DEFAULT_TIME_LIMIT;
+	if (!Number.isFinite(timeLimit) || timeLimit < 0) {
+		console.error(`Invalid time limit: ${timeLimitArg?.slice(timeLimitFlag.length)} (expected seconds, or 0 for no limit)`);
+		process.exit(1);
+	}
 
 	// Find tokenizer if specified
 	const tokenizerArg = args.find(arg => arg.startsWith(tokenizerFlag));
+	const model = tokenizerArg?.slice(tokenizerFlag.length) ?? config.codeContext.tokenizer;
 	let tokenizer: TokenizerModel | undefined;
-	let directories: string[];
 
-	if (tokenizerArg) {
-		const model = tokenizerArg.slice(tokenizerFlag.length) as TokenizerModel;
-		if (!TOKENIZER_OPTIONS[model]) {
+	if (model) {
+		// Anything that isn't a known model name is taken as a local tokenizer.json or its directory
+		tokenizer = isKnownModel(model)
+			? model
+			: resolveLocalTokenizer(tokenizerArg ? model : path.resolve(configDir, model));
+		if (!tokenizer) {
 			console.error("Available tokenizer models:");
 			Object.entries(TOKENIZER_OPTIONS).forEach(([key, desc]) => {
 				console.error(`  ${key}: ${desc}`);
 			});
+			console.error("Or pass the path of a tokenizer.json file, or a directory containing one");
 			throw new Error(`Invalid tokenizer model: ${model}`);
 		}
-		tokenizer = model;
-		directories = args.filter(arg => !arg.startsWith(tokenizerFlag));
-	} else {
-		directories = args;
 	}
 
-	if (directories.length === 0) {
-		console.error("Usage: code-context [--tokenizer=<model>] <allowed-directory> [additional-directories...]");
+	// Find prompts directory if specified
+	const promptsDirArg = args.find(arg => arg.startsWith(promptsDirFlag));
+	const promptsDir = promptsDirArg
+		? path.resolve(promptsDirArg.slice(promptsDirFlag.length))
+		: DEFAULT_PROMPTS_DIR;
+
+	// Deny patterns can be repeated, and add to the ones in the config
+	const denyPatterns = [
+		...config.deny,
+		...args.filter(arg => arg.startsWith(denyFlag)).map(arg => arg.slice(denyFlag.length))
+	];
+
+	// How client roots change the allowed directories
+	const rootsArg = args.find(arg => arg.startsWith(rootsFlag));
+	const rootsMode = rootsArg ? rootsArg.slice(rootsFlag.length) : config.roots;
+	if (!["off", "intersect", "replace"].includes(rootsMode)) {
+		console.error(`Invalid roots mode: ${rootsMode} (expected off, intersect or replace)`);
+		process.exit(1);
+	}
+
+	// Each HTTP client could have different roots, but the allowed directories are shared
+	let transport: TransportOptions;
+	try {
+		transport = parseTransportOptions(args, DEFAULT_HTTP_PORT);
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+	if (transport.transport === "http" && rootsMode !== "off") {
+		console.error("Client roots can only be used with --transport=stdio");
+		process.exit(1);
+	}
+
+	// Directories on the command line replace the ones in the config
+	const directoryArgs = args.filter(arg => !flags.some(flag => arg.startsWith(flag)));
+	const directories = directoryArgs.length > 0
+		? directoryArgs.map(dir => ({ path: path.normalize(path.resolve(dir)), readOnly: false }))
+		: config.directories;
+
+	// With roots replacing them, the directories come from the client
+	if (directories.length === 0 && rootsMode !== "replace") {
+		console.error("Usage: code-context [--config=<file>] [--tokenizer=<model|path>] [--max-file-size=<bytes>] [--prompts-dir=<dir>] [--deny=<pattern>...] [--redact-secrets] [--time-limit=<seconds>] [--roots=off|intersect|replace] [--transport=stdio|http] [--host=<host>] [--port=<port>] [--auth-token=<token>] [allowed-directory...]");
+		console.error("\nDirectories can also be listed in a cogniteration.config.json file, or taken from the client with --roots=replace.");
 		console.error("\nAvailable tokenizer models:");
 		Object.entries(TOKENIZER_OPTIONS).forEach(([key, desc]) => {
 			console.error(`  ${key}: ${desc}`);
@@ -56,25 +209,182 @@ function parseCliArgs(): CliOptions {
 	}
 
 	return {
-		allowedDirectories: directories,
-		tokenizer: tokenizer || "Xenova/claude-tokenizer"
+		directories,
+		tokenizer: tokenizer || DEFAULT_MODEL,
+		maxFileSize,
+		promptsDir,
+		ignorePatterns: config.ignore,
+		denyPatterns,
+		redactSecrets: args.includes(redactFlag) || config.codeContext.redactSecrets,
+		timeLimit,
+		rootsMode: rootsMode as RootsMode,
+		transport,
+		config
 	};
 }
 
-const { allowedDirectories, tokenizer: selectedTokenizer } = parseCliArgs();
+const {
+	directories: configuredDirectories,
+	tokenizer: selectedTokenizer,
+	maxFileSize,
+	promptsDir,
+	ignorePatterns,
+	denyPatterns,
+	redactSecrets: redactByDefault,
+	timeLimit,
+	rootsMode,
+	transport: transportOptions,
+	config
+} = parseCliArgs();
 
-// Store allowed directories in normalized form 
-const normalizedDirectories = allowedDirectories.map(dir =>
-	path.normalize(path.resolve(dir))
-);
+const sandbox = new Sandbox(configuredDirectories, denyPatterns);
 
 // Schema definitions
+// Known models, plus the server's own tokenizer when it was loaded from a local path
+const TokenizerModelSchema = z.enum(
+	[...new Set([selectedTokenizer, ...Object.keys(TOKENIZER_OPTIONS)])] as [TokenizerModel, ...TokenizerModel[]]
+);
+
 const AnalyzeDirectorySchema = z.object({
 	path: z.string(),
+	tokenizer: TokenizerModelSchema.optional().describe('Tokenizer to count with (defaults to the server\'s tokenizer)'),
+	include: z.array(z.string()).default([]).describe('Only include files matching these gitignore-style globs'),
+	exclude: z.array(z.string()).default([]).describe('Skip files matching these gitignore-style globs'),
+	extensions: z.array(z.string()).default([]).describe('Only include files with these extensions, e.g. [".ts", ".py"]'),
+	maxDepth: z.number().int().nonnegative().optional().describe(
+		'How many directory levels to descend into (0 only lists files directly in path)'
+	),
+	minTokens: z.number().int().nonnegative().optional().describe('Skip files with fewer tokens than this'),
+	maxTokens: z.number().int().nonnegative().optional().describe('Skip files with more tokens than this'),
+	sortBy: z.enum(["path", "tokens", "lines"]).optional().describe('Sort files by this field (default: directory order)'),
+	order: z.enum(["asc", "desc"]).optional().describe('Sort order (default: asc for path, desc for tokens and lines)'),
+	limit: z.number().int().positive().optional().describe('Only show the first N files after sorting'),
+	format: z.enum(["list", "tree", "json"]).default("list").describe(
+		'"list" prints one file per line, "tree" prints an indented tree with per-directory totals, ' +
+		'"json" prints the structured AnalyzeDirectoryResponse'
+	)
 });
 
+const ReadFileRequestSchema = z.object({
+	path: z.string(),
+	startLine: z.number().int().positive().optional().describe('First line to return (1-based, inclusive)'),
+	endLine: z.number().int().positive().optional().describe('Last line to return (1-based, inclusive)'),
+	startByte: z.number().int().nonnegative().optional().describe('First byte to return (0-based, inclusive)'),
+	endByte: z.number().int().nonnegative().optional().describe('Byte offset to stop before (exclusive)'),
+	maxTokens: z.number().int().positive().optional().describe(
+		'Maximum number of tokens to return. Content is cut at a line boundary and a cursor is returned to continue'
+	),
+	cursor: z.string().optional().describe('Cursor from a previous truncated read of this file, to continue where it stopped')
+}).refine(
+	req => !((req.startLine !== undefined || req.endLine !== undefined) &&
+		(req.startByte !== undefined || req.endByte !== undefined)),
+	{ message: 'Use either a line range or a byte range, not both' }
+);
+
 const ReadFilesSchema = z.object({
-	paths: z.array(z.string())
+	tokenizer: TokenizerModelSchema.optional().describe(
+		'Tokenizer used for maxTokens and remaining token counts (defaults to the server\'s tokenizer)'
+	),
+	paths: z.array(z.union([z.string(), ReadFileRequestSchema])).describe(
+		'File paths, or objects with a path and an optional line range, byte range, token limit or cursor'
+	),
+	redact: z.boolean().optional().describe(
+		'Replace credentials such as API keys and private keys with placeholders (defaults to the server\'s ' +
+		'setting; can only turn redaction on when the server has it off)'
+	)
+});
+
+const OutlineFilesSchema = z.object({
+	paths: z.array(z.string()).describe('TypeScript, JavaScript or Python files to outline')
+});
+
+const SearchCodeSchema = z.object({
+	path: z.string().describe('Directory to search'),
+	query: z.string().min(1).describe('Text or regular expression to search for, matched against each line'),
+	mode: z.enum(["literal", "regex"]).default("literal"),
+	caseSensitive: z.boolean().default(false),
+	include: z.array(z.string()).default([]).describe('Only search files matching these gitignore-style globs'),
+	exclude: z.array(z.string()).default([]).describe('Skip files matching these gitignore-style globs'),
+	contextLines: z.number().int().min(0).max(20).default(2).describe('Lines of context to show around each match'),
+	maxTokens: z.number().int().positive().default(8000).describe(
+		'Token budget for the results; files beyond it are dropped and reported'
+	)
+});
+
+const GitScopeShape = {
+	path: z.string().describe('Directory inside a git repository; only changes under it are included'),
+	base: z.string().optional().describe(
+		'Compare the working tree with the point where the current branch forked from this ref, e.g. "main"'
+	),
+	staged: z.boolean().default(false).describe(
+		'Without base: compare staged changes with HEAD instead of unstaged changes with the index'
+	),
+	tokenizer: TokenizerModelSchema.optional().describe('Tokenizer to count with (defaults to the server\'s tokenizer)')
+};
+
+const GitChangedFilesSchema = z.object(GitScopeShape);
+
+const GitDiffSchema = z.object({
+	...GitScopeShape,
+	paths: z.array(z.string()).default([]).describe('Only diff these files or directories under path'),
+	contextLines: z.number().int().min(0).max(50).default(3).describe('Lines of context around each change'),
+	maxTokens: z.number().int().positive().default(20000).describe(
+		'Token budget for the diffs; files beyond it are left out and listed'
+	)
+});
+
+const GitRecentFilesSchema = z.object({
+	path: z.string().describe('Directory inside a git repository; only files under it are listed'),
+	limit: z.number().int().positive().default(20).describe('Number of files to list'),
+	since: z.string().optional().describe('Only look at commits after this date, e.g. "2 weeks ago" or "2024-06-01"'),
+	maxCommits: z.number().int().positive().default(500).describe('Number of recent commits to look through'),
+	tokenizer: TokenizerModelSchema.optional().describe('Tokenizer to count with (defaults to the server\'s tokenizer)')
+});
+
+const RelatedFilesSchema = z.object({
+	path: z.string().describe('File to find the related files of'),
+	direction: z.enum(["dependencies", "dependents", "both"]).default("both").describe(
+		'"dependencies" are files it imports, "dependents" are files that import it'
+	),
+	depth: z.number().int().min(1).max(10).default(1).describe('How many import steps to follow'),
+	root: z.string().optional().describe(
+		'Directory to search for dependents and resolve imports in (defaults to the allowed directory containing path)'
+	),
+	tokenizer: TokenizerModelSchema.optional().describe('Tokenizer to count with (defaults to the server\'s tokenizer)')
+});
+
+const TokenCacheSchema = z.object({
+	action: z.enum(["stats", "clear"]).default("stats").describe(
+		'"stats" lists the cached token counts per tokenizer, "clear" deletes them'
+	),
+	tokenizer: TokenizerModelSchema.optional().describe(
+		'Only clear the cache for this tokenizer (defaults to all tokenizers)'
+	)
+});
+
+const CountTokensSchema = z.object({
+	text: z.string().optional().describe('Text to count'),
+	paths: z.array(z.string()).default([]).describe('Files to count'),
+	tokenizers: z.array(TokenizerModelSchema).default([]).describe(
+		'Tokenizers to compare (defaults to the server\'s tokenizer)'
+	)
+}).refine(
+	args => args.text !== undefined || args.paths.length > 0,
+	{ message: 'Provide text, paths or both' }
+);
+
+const PackContextSchema = z.object({
+	path: z.string().describe('Directory to pick files from'),
+	tokenizer: TokenizerModelSchema.optional().describe('Tokenizer to count with (defaults to the server\'s tokenizer)'),
+	budget: z.number().int().positive().describe('Maximum total tokens across the packed files'),
+	seeds: z.array(z.string()).default([]).describe(
+		'File paths or gitignore-style glob patterns (relative to path) that should be packed first'
+	),
+	strategy: z.enum(["smallest", "siblings", "recent"]).default("smallest").describe(
+		'How to prioritize files after the seeds: "smallest" packs the smallest files first, ' +
+		'"siblings" packs only files in the same directories as the seeds (and needs seeds), ' +
+		'"recent" packs the most recently modified files first'
+	)
 });
 
 // Type definitions
@@ -84,96 +394,504 @@ interface FileInfo {
 	lineCount: number;
 }
 
+// A file left out of the analysis, such as a binary or oversized file
+interface SkippedFile {
+	path: string;
+	reason: string;
+}
+
+type AnalyzeDirectoryArgs = z.infer<typeof AnalyzeDirectorySchema>;
+
 interface AnalyzeDirectoryResponse {
 	rootPath: string;
+	tokenizer: TokenizerModel;
+	// Whether token counts are heuristic estimates because the tokenizer couldn't be loaded
+	estimated: boolean;
+	// Files after filtering, sorting and limiting; the totals cover every file that matched the filters
 	files: FileInfo[];
+	skipped: SkippedFile[];
 	totalFiles: number;
 	totalTokens: number;
+	cacheHits: number;
+	incomplete: boolean;
+}
+
+interface ProcessProgress {
+	filesSeen: number;
+	filesTokenized: number;
+}
+
+interface WalkOptions {
+	signal?: AbortSignal;
+	maxDepth?: number;
+	filter?: (relativePath: string) => boolean;
+	onFile?: (relativePath: string) => void;
+}
+
+interface ProcessOptions extends Omit<WalkOptions, 'onFile'> {
+	tokenizer?: TokenizerModel;
+	onProgress?: (progress: ProcessProgress) => void;
+}
+
+interface ProcessResult {
+	files: FileInfo[];
+	skipped: SkippedFile[];
+	cacheHits: number;
+	incomplete: boolean;
+}
+
+type PackStrategy = z.infer<typeof PackContextSchema>["strategy"];
+
+interface PackContextResult {
+	packed: FileInfo[];
+	omitted: FileInfo[];
+	totalTokens: number;
+}
+
+type ReadFileRequest = z.infer<typeof ReadFileRequestSchema>;
+
+interface ReadFileRange {
+	startLine: number;
+	endLine: number;
+	startByte: number;
+	endByte: number;
 }
 
 interface ReadFileResult {
 	path: string;
 	content: string;
+	range?: ReadFileRange;
+	// Estimated from the returned content; 0 only when the read reached the end of the file
+	tokensRemaining?: number;
+	cursor?: string;
+	// Number of secrets replaced with placeholders
+	redactions?: number;
+	error?: string;
+}
+
+interface OutlineEntry extends OutlineSymbol {
+	tokenCount: number;
+	children: OutlineEntry[];
+}
+
+interface OutlineFileResult {
+	path: string;
+	symbols: OutlineEntry[];
+	error?: string;
+}
+
+interface SearchCodeResponse {
+	blocks: string[];
+	matchCount: number;
+	fileCount: number;
+	droppedMatches: number;
+	droppedFiles: number;
+	totalTokens: number;
+	incomplete: boolean;
+}
+
+// A listed file with its counts, or the reason it has none (deleted, binary, ...)
+interface CountedFile {
+	path: string;
+	lineCount?: number;
+	tokenCount?: number;
+	reason?: string;
+}
+
+type GitChangedFileInfo = ChangedFile & CountedFile;
+
+type Relation = "file" | "dependency" | "dependent";
+
+interface RelatedFile extends CountedFile {
+	relation: Relation;
+	// Number of import steps from the requested file
+	depth: number;
+}
+
+interface GitDiffResponse {
+	diffs: { path: string; tokenCount: number; patch: string }[];
+	dropped: { path: string; tokenCount: number }[];
+	// Files matching a deny pattern, listed without their patch
+	withheld: string[];
+	totalTokens: number;
+	incomplete: boolean;
+}
+
+interface CountTokensRow {
+	source: string;
+	counts: number[];
 	error?: string;
 }
 
-// Common binary file extensions
-const BINARY_FILE_PATTERNS = new Set([
-	'.exe', '.dll', '.so', '.dylib', '.bin', '.obj', '.o',
-	'.jpg', '.jpeg', '.png', '.gif', '.bmp', '.ico',
-	'.mp3', '.wav', '.ogg',
-	'.mp4', '.avi', '.mov',
-	'.zip', '.tar', '.gz', '.7z', '.rar',
-	'.pdf', '.doc', '.docx',
-	'.pyc', '.pyo', '.pyd',
-	'.class',
-	'.lockb'
-]);
+interface ReadCursor {
+	path: string;
+	start: number;
+	end: number;
+	// Hash of the file's text, so a cursor into a file that has since changed is refused
+	hash: string;
+}
+
+// Maximum number of files tokenized at once during directory analysis
+const TOKENIZE_CONCURRENCY = 8;
+
+// Directories read at once while walking a tree
+const WALK_CONCURRENCY = 16;
+
+// Minimum time between progress notifications for a single request
+const PROGRESS_INTERVAL_MS = 250;
 
 // Security utilities
 async function validatePath(requestedPath: string): Promise<string> {
-	const absolute = path.isAbsolute(requestedPath)
-		? path.resolve(requestedPath)
-		: path.resolve(process.cwd(), requestedPath);
+	return sandbox.resolve(requestedPath);
+}
+
+// Read a file as text, rejecting binary, minified and oversized files
+async function readTextFile(filePath: string, maxSize = maxFileSize): Promise<string> {
+	const check = await checkFile(filePath, maxSize);
+	if (!check.text) {
+		throw new Error(check.reason);
+	}
+	return decodeText(await readFile(filePath), check.encoding, check.bomLength);
+}
+
+// Get token and line counts for a text file, reusing cached counts for unchanged files.
+// When secrets are redacted, tokens are counted in the redacted content that read_files returns;
+// line counts stay those of the file so they can be used for ranged reads.
+async function getFileCounts(
+	filePath: string,
+	check: Extract<FileCheck, { text: true }>,
+	model: TokenizerModel
+): Promise<{ lineCount: number; tokenCount: number; cached: boolean }> {
+	const cache = await getTokenCountCache(model);
+	return cache.getOrCompute(filePath, async (buffer) => {
+		const content = decodeText(buffer, check.encoding, check.bomLength);
+		const lines = content.split('\n');
+		const { tokenCount, estimated } = await tokenize(
+			redactByDefault ? redactSecrets(content).content : content,
+			model
+		);
+
+		return {
+			lineCount: lines.length,
+			tokenCount,
+			estimated
+		};
+	}, redactByDefault);
+}
+
+// Byte offsets at which each line of a buffer starts
+function getLineStarts(buffer: Buffer): number[] {
+	const starts = [0];
+	for (let i = 0; i < buffer.length; i++) {
+		if (buffer[i] === 0x0a) {
+			starts.push(i + 1);
+		}
+	}
+	return starts;
+}
+
+// 1-based line number containing the given byte offset
+function lineAtOffset(lineStarts: number[], offset: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (lineStarts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return low + 1;
+}
+
+// Move an offset forward past UTF-8 continuation bytes so we never split a character
+function alignToCharBoundary(buffer: Buffer, offset: number): number {
+	while (offset < buffer.length && (buffer[offset] & 0xc0) === 0x80) {
+		offset++;
+	}
+	return offset;
+}
+
+function encodeCursor(cursor: ReadCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
 
-	const normalized = path.normalize(absolute);
+// Short content hash for cursors; collisions only matter between versions of one file
+function hashCursorText(buffer: Buffer): string {
+	return createHash('sha256').update(buffer).digest('base64url').slice(0, 16);
+}
+
+function decodeCursor(value: string, validPath: string, buffer: Buffer): ReadCursor {
+	let cursor: ReadCursor;
+	try {
+		cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+	} catch {
+		throw new Error('Invalid cursor');
+	}
+	if (cursor.path !== validPath || !Number.isInteger(cursor.start) || !Number.isInteger(cursor.end)) {
+		throw new Error('Cursor does not belong to this file');
+	}
+	if (cursor.hash !== hashCursorText(buffer)) {
+		throw new Error('The file has changed since the cursor was returned; read it again without the cursor');
+	}
+	return cursor;
+}
+
+// Resolve the requested line range, byte range or cursor to byte offsets
+function resolveByteRange(
+	buffer: Buffer,
+	lineStarts: number[],
+	request: ReadFileRequest,
+	validPath: string
+): { start: number; end: number } {
+	if (request.cursor) {
+		const cursor = decodeCursor(request.cursor, validPath, buffer);
+		return {
+			start: Math.min(cursor.start, buffer.length),
+			end: Math.min(cursor.end, buffer.length)
+		};
+	}
 
-	// Check if path is within allowed directories
-	const isAllowed = normalizedDirectories.some(dir => normalized.startsWith(dir));
-	if (!isAllowed) {
-		throw new Error(`Access denied - path outside allowed directories: ${absolute}`);
+	if (request.startLine !== undefined || request.endLine !== undefined) {
+		const lineCount = lineStarts.length;
+		const startLine = request.startLine ?? 1;
+		const endLine = Math.min(request.endLine ?? lineCount, lineCount);
+		if (startLine > lineCount) {
+			throw new Error(`startLine ${startLine} is past the end of the file (${lineCount} lines)`);
+		}
+		if (endLine < startLine) {
+			throw new Error(`endLine ${endLine} is before startLine ${startLine}`);
+		}
+		return {
+			start: lineStarts[startLine - 1],
+			end: endLine < lineCount ? lineStarts[endLine] : buffer.length
+		};
 	}
 
-	return normalized;
+	const start = Math.min(request.startByte ?? 0, buffer.length);
+	const end = Math.min(request.endByte ?? buffer.length, buffer.length);
+	if (end < start) {
+		throw new Error(`endByte ${end} is before startByte ${start}`);
+	}
+	return {
+		start: alignToCharBoundary(buffer, start),
+		end: alignToCharBoundary(buffer, end)
+	};
 }
 
-// Check if a file might be binary based on extension
-function isBinaryFile(filePath: string): boolean {
-	const ext = path.extname(filePath).toLowerCase();
-	return BINARY_FILE_PATTERNS.has(ext);
+// Find the longest prefix of the text that fits within the token limit,
+// preferring whole lines and falling back to characters for a single long line
+async function truncateToTokens(text: string, maxTokens: number, model: TokenizerModel): Promise<string> {
+	const { tokenCount } = await tokenize(text, model);
+	if (tokenCount <= maxTokens) {
+		return text;
+	}
+
+	const fits = async (candidate: string) =>
+		(await tokenize(candidate, model)).tokenCount <= maxTokens;
+
+	// Split after each newline so joined prefixes keep their line endings
+	const lines = text.split(/(?<=\n)/);
+	let low = 0;
+	let high = lines.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (await fits(lines.slice(0, mid).join(''))) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	if (low > 0) {
+		return lines.slice(0, low).join('');
+	}
+
+	const chars = Array.from(lines[0]);
+	low = 1;
+	high = chars.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (await fits(chars.slice(0, mid).join(''))) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	// Always return at least one character so a cursor makes progress
+	return chars.slice(0, low).join('');
 }
 
-// Get token and line counts for a file
-async function getFileCounts(filePath: string): Promise<{ lineCount: number; tokenCount: number }> {
-	const content = await readFile(filePath, 'utf-8');
-	const lines = content.split('\n');
-	const { tokenCount } = await tokenize(content, selectedTokenizer);
+// Read one file, honoring any requested range, token limit or cursor.
+// Offsets are into the file's text as UTF-8, which matches the file on disk unless it is UTF-16 or has a BOM.
+// Secrets are redacted after the range is cut, so offsets and cursors still refer to the file.
+async function readFileWithRange(
+	request: ReadFileRequest,
+	validPath: string,
+	model: TokenizerModel,
+	redact: boolean
+): Promise<ReadFileResult> {
+	// Whole-file reads are subject to the size and minified checks; ranged reads are how those files get read
+	const isPartial = request.startLine !== undefined || request.endLine !== undefined ||
+		request.startByte !== undefined || request.endByte !== undefined ||
+		request.maxTokens !== undefined || request.cursor !== undefined;
+	const check = await checkFile(validPath, isPartial ? Infinity : maxFileSize);
+	if (!check.text && !(isPartial && check.kind === "minified")) {
+		const hint = check.kind === "binary"
+			? ''
+			: '; request a line range, byte range or maxTokens to read part of it';
+		throw new Error(check.reason + hint);
+	}
+	const text = check.text
+		? decodeText(await readFile(validPath), check.encoding, check.bomLength)
+		: await readFile(validPath, 'utf-8');
+	const buffer = Buffer.from(text, 'utf-8');
+	const lineStarts = getLineStarts(buffer);
+	const { start, end } = resolveByteRange(buffer, lineStarts, request, validPath);
+
+	let content = buffer.subarray(start, end).toString('utf-8');
+	if (request.maxTokens !== undefined) {
+		content = await truncateToTokens(content, request.maxTokens, model);
+	}
+	const returnedEnd = start + Buffer.byteLength(content, 'utf-8');
+
+	const redacted = redact ? redactSecrets(content) : { content, redactions: 0 };
+	// Estimated from the tokens per byte of the returned content rather than by tokenizing the
+	// rest of the file on every read
+	let tokensRemaining = 0;
+	if (returnedEnd < buffer.length) {
+		const returnedBytes = returnedEnd - start;
+		const { tokenCount } = await tokenize(redacted.content, model);
+		const bytesPerToken = tokenCount > 0 ? returnedBytes / tokenCount : 4;
+		tokensRemaining = Math.max(1, Math.round((buffer.length - returnedEnd) / bytesPerToken));
+	}
 
 	return {
-		lineCount: lines.length,
-		tokenCount
+		path: request.path,
+		content: redacted.content,
+		redactions: redacted.redactions,
+		range: {
+			startLine: lineAtOffset(lineStarts, start),
+			endLine: returnedEnd > start ? lineAtOffset(lineStarts, returnedEnd - 1) : lineAtOffset(lineStarts, start),
+			startByte: start,
+			endByte: returnedEnd
+		},
+		tokensRemaining,
+		cursor: returnedEnd < end
+			? encodeCursor({ path: validPath, start: returnedEnd, end, hash: hashCursorText(buffer) })
+			: undefined
 	};
 }
 
 // Read multiple files safely
-async function readFiles(paths: string[]): Promise<ReadFileResult[]> {
+async function readFiles(
+	requests: (string | ReadFileRequest)[],
+	model: TokenizerModel = selectedTokenizer,
+	redact = redactByDefault
+): Promise<ReadFileResult[]> {
 	const results: ReadFileResult[] = [];
 
-	for (const reqPath of paths) {
+	for (const entry of requests) {
+		const request = typeof entry === 'string' ? { path: entry } : entry;
 		try {
 			// Validate path is allowed
+			const validPath = await validatePath(request.path);
+
+			results.push(await readFileWithRange(request, validPath, model, redact));
+		} catch (error) {
+			results.push({
+				path: request.path,
+				content: "",
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+
+	return results;
+}
+
+// Count tokens for text and files under each of the given tokenizers
+async function countTokens(
+	text: string | undefined,
+	paths: string[],
+	tokenizers: TokenizerModel[]
+): Promise<CountTokensRow[]> {
+	const countAll = async (content: string) => {
+		const counts: number[] = [];
+		for (const model of tokenizers) {
+			counts.push((await tokenize(content, model)).tokenCount);
+		}
+		return counts;
+	};
+
+	const rows: CountTokensRow[] = [];
+	if (text !== undefined) {
+		rows.push({ source: '<text>', counts: await countAll(text) });
+	}
+	for (const reqPath of paths) {
+		try {
+			const validPath = await validatePath(reqPath);
+			rows.push({ source: reqPath, counts: await countAll(await readTextFile(validPath)) });
+		} catch (error) {
+			rows.push({
+				source: reqPath,
+				counts: [],
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+	if (rows.length > 1) {
+		rows.push({
+			source: 'TOTALS',
+			counts: tokenizers.map((_, i) => rows.reduce((sum, row) => sum + (row.counts[i] ?? 0), 0))
+		});
+	}
+	return rows;
+}
+
+// Attach a token count to each symbol, covering the lines it spans
+async function countSymbolTokens(symbols: OutlineSymbol[], lines: string[]): Promise<OutlineEntry[]> {
+	const entries: OutlineEntry[] = [];
+	for (const symbol of symbols) {
+		const text = lines.slice(symbol.startLine - 1, symbol.endLine).join('\n');
+		const { tokenCount } = await tokenize(text, selectedTokenizer);
+		entries.push({
+			...symbol,
+			tokenCount,
+			children: await countSymbolTokens(symbol.children, lines)
+		});
+	}
+	return entries;
+}
+
+// List the declarations in each file with their line ranges and token counts
+async function outlineFiles(paths: string[]): Promise<OutlineFileResult[]> {
+	const results: OutlineFileResult[] = [];
+
+	for (const reqPath of paths) {
+		try {
 			const validPath = await validatePath(reqPath);
 
-			// Skip binary files
-			if (isBinaryFile(validPath)) {
+			const language = getOutlineLanguage(validPath);
+			if (!language) {
 				results.push({
 					path: reqPath,
-					content: "",
-					error: "Binary file"
+					symbols: [],
+					error: "Unsupported file type (expected TypeScript, JavaScript or Python)"
 				});
 				continue;
 			}
 
-			// Read file
-			const content = await readFile(validPath, 'utf-8');
+			const content = await readTextFile(validPath);
+			const symbols = outlineSource(content, language);
 			results.push({
 				path: reqPath,
-				content
+				symbols: await countSymbolTokens(symbols, content.split('\n'))
 			});
 		} catch (error) {
 			results.push({
 				path: reqPath,
-				content: "",
+				symbols: [],
 				error: error instanceof Error ? error.message : String(error)
 			});
 		}
@@ -200,142 +918,1093 @@ async function loadGitignore(dirPath: string): Promise<string[]> {
 	return [];
 }
 
-// Recursive directory traversal with nested .gitignore support
-async function processDirectory(
+// Run async functions with at most `limit` in flight; the rest wait their turn
+function createLimiter(limit: number): <T>(fn: () => Promise<T>) => Promise<T> {
+	let active = 0;
+	const waiting: (() => void)[] = [];
+	return async fn => {
+		// A finished call hands its slot straight to the next waiting one
+		if (active >= limit) {
+			await new Promise<void>(resolve => waiting.push(resolve));
+		} else {
+			active++;
+		}
+		try {
+			return await fn();
+		} finally {
+			const next = waiting.shift();
+			if (next) {
+				next();
+			} else {
+				active--;
+			}
+		}
+	};
+}
+
+const limitDirectoryReads = createLimiter(WALK_CONCURRENCY);
+
+// Recursive directory traversal with nested .gitignore support,
+// returning the paths of all files relative to the base path.
+// Subdirectories are read concurrently, and the paths keep directory order.
+async function collectFiles(
 	basePath: string,
 	currentPath: string,
-	parentPatterns: string[] = []
-): Promise<FileInfo[]> {
-	const files: FileInfo[] = [];
+	parentPatterns: string[] = ignorePatterns,
+	options: WalkOptions = {},
+	depth = 0
+): Promise<string[]> {
+	const { signal, maxDepth, filter, onFile } = options;
+	if (signal?.aborted) {
+		return [];
+	}
 
-	// Get patterns from current directory's .gitignore
-	const currentPatterns = await loadGitignore(currentPath);
+	// Get patterns from current directory's .gitignore, and its entries
+	const [currentPatterns, entries] = await limitDirectoryReads(async () => [
+		await loadGitignore(currentPath),
+		await readdir(currentPath, { withFileTypes: true })
+	] as const);
 
 	// Create ignore instance with all patterns
-	const ig = ignore().add([...parentPatterns, ...currentPatterns]);
+	const patterns = [...parentPatterns, ...currentPatterns];
+	const ig = ignore().add(patterns);
 
-	const entries = await readdir(currentPath, { withFileTypes: true });
+	const results = await Promise.all(entries.map(async (entry): Promise<string[]> => {
+		if (signal?.aborted) {
+			return [];
+		}
 
-	for (const entry of entries) {
 		const fullPath = path.join(currentPath, entry.name);
 		const relativePath = path.relative(basePath, fullPath);
 
-		if (ig.ignores(relativePath)) {
-			continue;
+		if (ig.ignores(relativePath) || sandbox.isDenied(fullPath, entry.isDirectory())) {
+			return [];
 		}
 
 		if (entry.isDirectory()) {
-			const subFiles = await processDirectory(
-				basePath,
-				fullPath,
-				[...parentPatterns, ...currentPatterns]
-			);
-			files.push(...subFiles);
-		} else if (entry.isFile() && !isBinaryFile(entry.name)) {
-			try {
-				const counts = await getFileCounts(fullPath);
-				files.push({
-					path: relativePath,
-					...counts
-				});
-			} catch (error) {
-				console.error(`Error processing file ${fullPath}:`, error);
-				continue;
+			if (maxDepth !== undefined && depth >= maxDepth) {
+				return [];
 			}
+			return collectFiles(basePath, fullPath, patterns, options, depth + 1);
 		}
-	}
+		if (entry.isFile() && (!filter || filter(relativePath))) {
+			onFile?.(relativePath);
+			return [relativePath];
+		}
+		return [];
+	}));
 
-	return files;
+	return results.flat();
 }
 
-// Set up the server
-const server = new Server(
-	{
-		name: "code-context-mcp",
-		version: "0.1.0",
-	},
-	{
-		capabilities: {
-			tools: {},
-			prompts: {
-				listChanged: false
-			},
-		},
-	}
-);
-
-// Register available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	return {
-		tools: [
-			{
-				name: "analyze_directory",
-				description:
-					"Analyzes a directory to provide information about contained files, " +
-					"including token counts and line counts. Respects .gitignore rules " +
-					"in each directory. Skips binary files and recursively processes " +
-					"subdirectories.",
-				inputSchema: zodToJsonSchema(AnalyzeDirectorySchema) as z.infer<typeof ToolSchema>["inputSchema"],
-			},
-			{
-				name: "read_files",
-				description:
-					"Read the contents of multiple files. Each file is independently validated " +
-					"and read, with errors returned per-file rather than failing the entire operation. " +
-					"Binary files are skipped with an error message.",
-				inputSchema: zodToJsonSchema(ReadFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
-			}
-		],
+// Run an async function over items with at most `limit` calls in flight.
+// Stops picking up new items once the signal is aborted.
+async function forEachConcurrent<T>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<void>,
+	signal?: AbortSignal
+): Promise<void> {
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length && !signal?.aborted) {
+			const index = next++;
+			await fn(items[index], index);
+		}
 	};
-});
-
-// Format directory analysis results
-function formatAnalysisResponse(response: AnalyzeDirectoryResponse): string {
-	const lines = [
-		'# Format: filename lineCount tokenCount',
-		...response.files.map(f => `${f.path} ${f.lineCount} ${f.tokenCount}`),
-		`TOTALS ${response.totalFiles} ${response.totalTokens}`
-	];
-	return lines.join('\n');
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
 }
 
-// Format file reading results with zero indentation
-function formatReadFilesResponse(results: ReadFileResult[]): string {
-	return results.map(file => {
-		if (file.error) {
-			return `<document><source>${file.path}</source><e>${file.error}</e></document>`;
+// Walk a directory and count tokens for every file, reporting progress as it goes.
+// If the signal is aborted, returns the files counted so far marked as incomplete.
+async function processDirectory(basePath: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+	const { signal, onProgress, tokenizer = selectedTokenizer, ...walkOptions } = options;
+	const progress: ProcessProgress = { filesSeen: 0, filesTokenized: 0 };
+
+	const paths = await collectFiles(basePath, basePath, ignorePatterns, {
+		...walkOptions,
+		signal,
+		onFile: () => {
+			progress.filesSeen++;
+			onProgress?.(progress);
 		}
-		return `<document><source>${file.path}</source><document_content>${file.content}</document_content></document>`;
-	}).join('\n\n');
-}
+	});
 
-// Implement the tools
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-	try {
-		const { name, arguments: args } = request.params;
+	const counted: (FileInfo | undefined)[] = new Array(paths.length);
+	const skipped: (SkippedFile | undefined)[] = new Array(paths.length);
+	let cacheHits = 0;
 
-		switch (name) {
-			case "analyze_directory": {
-				const parsed = AnalyzeDirectorySchema.safeParse(args);
-				if (!parsed.success) {
-					throw new Error(`Invalid arguments: ${parsed.error}`);
+	await forEachConcurrent(paths, TOKENIZE_CONCURRENCY, async (relativePath, index) => {
+		const fullPath = path.join(basePath, relativePath);
+		try {
+			const check = await checkFile(fullPath, maxFileSize);
+			if (!check.text) {
+				skipped[index] = { path: relativePath, reason: check.reason };
+			} else {
+				const { cached, ...counts } = await getFileCounts(fullPath, check, tokenizer);
+				if (cached) {
+					cacheHits++;
 				}
-
-				const validPath = await validatePath(parsed.data.path);
-				const files = await processDirectory(validPath, validPath);
-				const totalTokens = files.reduce((sum, file) => sum + file.tokenCount, 0);
-
-				const response: AnalyzeDirectoryResponse = {
-					rootPath: validPath,
-					files,
-					totalFiles: files.length,
-					totalTokens
+				counted[index] = {
+					path: relativePath,
+					...counts
 				};
-
+			}
+		} catch (error) {
+			console.error(`Error processing file ${fullPath}:`, error);
+		}
+		progress.filesTokenized++;
+		onProgress?.(progress);
+	}, signal);
+
+	await (await getTokenCountCache(tokenizer)).save();
+
+	return {
+		files: counted.filter((file): file is FileInfo => file !== undefined),
+		skipped: skipped.filter((file): file is SkippedFile => file !== undefined),
+		cacheHits,
+		incomplete: signal?.aborted ?? false
+	};
+}
+
+// Forward directory processing progress to the client as MCP progress notifications,
+// throttled so large trees don't flood the transport
+function createProgressReporter(
+	progressToken: string | number | undefined,
+	sendNotification: (notification: ServerNotification) => Promise<void>
+): ((progress: ProcessProgress) => void) | undefined {
+	if (progressToken === undefined) {
+		return undefined;
+	}
+	let lastSent = 0;
+	return ({ filesSeen, filesTokenized }) => {
+		const now = Date.now();
+		const done = filesSeen > 0 && filesTokenized === filesSeen;
+		if (!done && now - lastSent < PROGRESS_INTERVAL_MS) {
+			return;
+		}
+		lastSent = now;
+		sendNotification({
+			method: "notifications/progress",
+			params: {
+				progressToken,
+				progress: filesTokenized,
+				total: filesSeen,
+				message: `${filesSeen} files seen, ${filesTokenized} tokenized`
+			}
+		}).catch(error => console.error('Error sending progress notification:', error));
+	};
+}
+
+// Git lists every changed or committed file under the directory, including ones the deny
+// patterns keep the other tools from reading
+function isDeniedGitPath(rootPath: string, ...relativePaths: (string | undefined)[]): boolean {
+	return relativePaths.some(relativePath =>
+		relativePath !== undefined && sandbox.isDenied(path.join(rootPath, relativePath), false));
+}
+
+const DENIED_REASON = 'matches a deny pattern';
+
+// A git command stopped at the time limit fails; say so rather than passing on the abort error
+async function gitWithinTimeLimit<T>(command: Promise<T>, signal?: AbortSignal): Promise<T> {
+	try {
+		return await command;
+	} catch (error) {
+		if (signal?.aborted) {
+			throw new Error(`git ${formatTimeLimitNote()}`);
+		}
+		throw error;
+	}
+}
+
+// Count a listed file; files that are gone or aren't text get a reason instead
+async function countFile(rootPath: string, relativePath: string, model: TokenizerModel): Promise<CountedFile> {
+	const fullPath = path.join(rootPath, relativePath);
+	try {
+		await validatePath(fullPath);
+		const check = await checkFile(fullPath, maxFileSize);
+		if (!check.text) {
+			return { path: relativePath, reason: check.reason };
+		}
+		const { lineCount, tokenCount } = await getFileCounts(fullPath, check, model);
+		return { path: relativePath, lineCount, tokenCount };
+	} catch (error) {
+		return { path: relativePath, reason: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+// List changed files under a directory with their current line and token counts
+async function gitChangedFiles(
+	rootPath: string,
+	scope: ChangeScope,
+	model: TokenizerModel,
+	signal?: AbortSignal
+): Promise<GitChangedFileInfo[]> {
+	const changes = await gitWithinTimeLimit(getChangedFiles(rootPath, scope, signal), signal);
+	const results: GitChangedFileInfo[] = new Array(changes.length);
+	await forEachConcurrent(changes, TOKENIZE_CONCURRENCY, async (change, index) => {
+		if (isDeniedGitPath(rootPath, change.path, change.oldPath)) {
+			results[index] = { ...change, reason: DENIED_REASON };
+			return;
+		}
+		results[index] = change.status === "deleted"
+			? change
+			: { ...change, ...await countFile(rootPath, change.path, model) };
+	}, signal);
+	await (await getTokenCountCache(model)).save();
+	return results.filter(Boolean);
+}
+
+// Diff each changed file, keeping whole file diffs until the token budget is used up
+async function gitDiff(
+	rootPath: string,
+	options: z.infer<typeof GitDiffSchema>,
+	model: TokenizerModel,
+	signal?: AbortSignal
+): Promise<GitDiffResponse> {
+	// Limit paths to the directory, and keep git from reading them as pathspec magic
+	const paths: string[] = [];
+	for (const requested of options.paths) {
+		const validPath = await validatePath(path.resolve(rootPath, requested));
+		paths.push(`:(literal)${path.relative(rootPath, validPath) || '.'}`);
+	}
+
+	const diffs = await gitWithinTimeLimit(
+		getFileDiffs(rootPath, options, { paths, contextLines: options.contextLines }, signal),
+		signal
+	);
+	const response: GitDiffResponse = { diffs: [], dropped: [], withheld: [], totalTokens: 0, incomplete: false };
+	for (const diff of diffs) {
+		if (signal?.aborted) {
+			response.incomplete = true;
+			break;
+		}
+		if (isDeniedGitPath(rootPath, diff.path)) {
+			response.withheld.push(diff.path);
+			continue;
+		}
+		const patch = redactByDefault ? redactSecrets(diff.patch).content : diff.patch;
+		const { tokenCount } = await tokenize(patch, model);
+		if (response.dropped.length > 0 || response.totalTokens + tokenCount > options.maxTokens) {
+			response.dropped.push({ path: diff.path, tokenCount });
+			continue;
+		}
+		response.diffs.push({ ...diff, patch, tokenCount });
+		response.totalTokens += tokenCount;
+	}
+	return response;
+}
+
+// Files under a directory by most recent commit, newest first, skipping files that no longer exist
+async function gitRecentFiles(
+	rootPath: string,
+	options: z.infer<typeof GitRecentFilesSchema>,
+	model: TokenizerModel,
+	signal?: AbortSignal
+): Promise<(CountedFile & { timestamp: number })[]> {
+	const recent = await gitWithinTimeLimit(getRecentFiles(rootPath, options, signal), signal);
+	const results: (CountedFile & { timestamp: number })[] = [];
+	for (const file of recent) {
+		if (results.length >= options.limit || signal?.aborted) {
+			break;
+		}
+		if (!existsSync(path.join(rootPath, file.path))) {
+			continue;
+		}
+		if (isDeniedGitPath(rootPath, file.path)) {
+			results.push({ path: file.path, reason: DENIED_REASON, timestamp: file.timestamp });
+			continue;
+		}
+		results.push({ ...await countFile(rootPath, file.path, model), timestamp: file.timestamp });
+	}
+	await (await getTokenCountCache(model)).save();
+	return results;
+}
+
+// Resolved imports of a file, as absolute paths; files that can't be read have none
+async function readImports(filePath: string, resolver: ImportResolver): Promise<string[]> {
+	const language = getOutlineLanguage(filePath);
+	if (!language) {
+		return [];
+	}
+	let content: string;
+	try {
+		content = await readTextFile(filePath);
+	} catch {
+		return [];
+	}
+	const files = new Set<string>();
+	for (const reference of extractImports(content, language)) {
+		for (const file of await resolver.resolve(filePath, reference, language)) {
+			if (file !== filePath) {
+				files.add(file);
+			}
+		}
+	}
+	return [...files];
+}
+
+// Follow imports breadth-first from a file: forwards for dependencies, backwards for dependents.
+// Finding dependents means reading the imports of every source file under the root.
+async function findRelatedFiles(
+	filePath: string,
+	rootPath: string,
+	options: z.infer<typeof RelatedFilesSchema>,
+	signal?: AbortSignal
+): Promise<RelatedFile[]> {
+	const resolver = new ImportResolver(rootPath);
+	const importsOf = new Map<string, Promise<string[]>>();
+	const getImports = (file: string) => {
+		let imports = importsOf.get(file);
+		if (!imports) {
+			imports = readImports(file, resolver);
+			importsOf.set(file, imports);
+		}
+		return imports;
+	};
+
+	const importers = new Map<string, string[]>();
+	if (options.direction !== "dependencies") {
+		const sources = (await collectFiles(rootPath, rootPath, ignorePatterns, { signal }))
+			.map(file => path.join(rootPath, file))
+			.filter(file => getOutlineLanguage(file));
+		await forEachConcurrent(sources, TOKENIZE_CONCURRENCY, async (source) => {
+			for (const imported of await getImports(source)) {
+				importers.set(imported, [...importers.get(imported) ?? [], source]);
+			}
+		}, signal);
+	}
+
+	const found = new Map<string, { relation: Relation; depth: number }>([[filePath, { relation: "file", depth: 0 }]]);
+	const walk = async (relation: Relation, next: (file: string) => Promise<string[]>) => {
+		let frontier = [filePath];
+		for (let depth = 1; depth <= options.depth && frontier.length > 0 && !signal?.aborted; depth++) {
+			const nextFrontier: string[] = [];
+			for (const file of frontier) {
+				for (const related of await next(file)) {
+					if (!found.has(related)) {
+						found.set(related, { relation, depth });
+						nextFrontier.push(related);
+					}
+				}
+			}
+			frontier = nextFrontier.sort();
+		}
+	};
+	if (options.direction !== "dependents") {
+		await walk("dependency", getImports);
+	}
+	if (options.direction !== "dependencies") {
+		await walk("dependent", async file => importers.get(file) ?? []);
+	}
+
+	const model = options.tokenizer ?? selectedTokenizer;
+	const results: RelatedFile[] = [];
+	for (const [file, { relation, depth }] of found) {
+		results.push({ ...await countFile(rootPath, path.relative(rootPath, file), model), relation, depth });
+	}
+	await (await getTokenCountCache(model)).save();
+	return results;
+}
+
+// Search the non-ignored text files under a directory, keeping each file's
+// results until the token budget is used up
+async function searchDirectory(
+	rootPath: string,
+	options: z.infer<typeof SearchCodeSchema>,
+	signal?: AbortSignal
+): Promise<SearchCodeResponse> {
+	const pattern = buildSearchPattern(options.query, options.mode, options.caseSensitive);
+	const paths = await collectFiles(rootPath, rootPath, ignorePatterns, {
+		signal,
+		filter: createFileFilter(options.include, options.exclude)
+	});
+
+	const response: SearchCodeResponse = {
+		blocks: [],
+		matchCount: 0,
+		fileCount: 0,
+		droppedMatches: 0,
+		droppedFiles: 0,
+		totalTokens: 0,
+		incomplete: false
+	};
+
+	for (const relativePath of paths) {
+		if (signal?.aborted) {
+			break;
+		}
+
+		let content: string;
+		try {
+			const fullPath = path.join(rootPath, relativePath);
+			const check = await checkFile(fullPath, maxFileSize);
+			if (!check.text) {
+				continue;
+			}
+			content = decodeText(await readFile(fullPath), check.encoding, check.bomLength);
+			// Search the redacted text, so secrets neither show up in matches nor can be found by value
+			if (redactByDefault) {
+				content = redactSecrets(content, true).content;
+			}
+		} catch (error) {
+			console.error(`Error searching file ${relativePath}:`, error);
+			continue;
+		}
+
+		const result = searchContent(content, pattern, options.contextLines);
+		if (result.matchCount === 0) {
+			continue;
+		}
+
+		const block = formatFileSearchResult(relativePath, result);
+		const { tokenCount } = await tokenize(block, selectedTokenizer);
+		if (response.droppedFiles > 0 || response.totalTokens + tokenCount > options.maxTokens) {
+			response.droppedMatches += result.matchCount;
+			response.droppedFiles++;
+			continue;
+		}
+
+		response.blocks.push(block);
+		response.matchCount += result.matchCount;
+		response.fileCount++;
+		response.totalTokens += tokenCount;
+	}
+
+	response.incomplete = signal?.aborted ?? false;
+	return response;
+}
+
+// Check whether a path would be skipped by the .gitignore rules that collectFiles applies,
+// walking down from the allowed directory that contains it
+async function isIgnoredPath(filePath: string): Promise<boolean> {
+	const root = sandbox.rootOf(filePath)?.path;
+	if (!root || filePath === root) {
+		return false;
+	}
+
+	// Patterns ending in a slash only match directories, which every segment but the last is
+	const segments = path.relative(root, filePath).split(path.sep);
+	const isDirectory = await stat(filePath).then(stats => stats.isDirectory(), () => false);
+	let patterns = ignorePatterns;
+	let current = root;
+	for (const [index, segment] of segments.entries()) {
+		patterns = [...patterns, ...await loadGitignore(current)];
+		current = path.join(current, segment);
+		const relativePath = segments.slice(0, index + 1).join('/');
+		const directory = index < segments.length - 1 || isDirectory;
+		if (ignore().add(patterns).ignores(directory ? `${relativePath}/` : relativePath)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Build a matcher for gitignore-style patterns against paths relative to the root
+function createPathMatcher(patterns: string[]): (relativePath: string) => boolean {
+	if (patterns.length === 0) {
+		return () => false;
+	}
+	const ig = ignore().add(patterns);
+	return (relativePath) => ig.ignores(relativePath.split(path.sep).join('/'));
+}
+
+// Combine include globs, exclude globs and extensions into a single file filter
+function createFileFilter(
+	include: string[],
+	exclude: string[],
+	extensions: string[] = []
+): ((relativePath: string) => boolean) | undefined {
+	if (include.length === 0 && exclude.length === 0 && extensions.length === 0) {
+		return undefined;
+	}
+	const isIncluded = createPathMatcher(include);
+	const isExcluded = createPathMatcher(exclude);
+	const allowedExtensions = new Set(
+		extensions.map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase())
+	);
+	return (relativePath) =>
+		(include.length === 0 || isIncluded(relativePath)) &&
+		!isExcluded(relativePath) &&
+		(allowedExtensions.size === 0 || allowedExtensions.has(path.extname(relativePath).toLowerCase()));
+}
+
+// Analyze a directory, applying the filters, sorting and limit from the arguments
+async function analyzeDirectory(
+	args: AnalyzeDirectoryArgs,
+	options: ProcessOptions = {}
+): Promise<AnalyzeDirectoryResponse> {
+	const validPath = await validatePath(args.path);
+	const tokenizer = args.tokenizer ?? selectedTokenizer;
+	const { files, skipped, cacheHits, incomplete } = await processDirectory(validPath, {
+		...options,
+		tokenizer,
+		maxDepth: args.maxDepth,
+		filter: createFileFilter(args.include, args.exclude, args.extensions)
+	});
+	const { matched, shown } = selectAnalyzedFiles(files, args);
+	const totalTokens = matched.reduce((sum, file) => sum + file.tokenCount, 0);
+
+	return {
+		rootPath: validPath,
+		tokenizer,
+		estimated: await isEstimated(tokenizer),
+		files: shown,
+		skipped,
+		totalFiles: matched.length,
+		totalTokens,
+		cacheHits,
+		incomplete
+	};
+}
+
+// Apply token size filters, sorting and the top-N limit to analyzed files
+function selectAnalyzedFiles(files: FileInfo[], args: AnalyzeDirectoryArgs): { matched: FileInfo[]; shown: FileInfo[] } {
+	const matched = files.filter(file =>
+		(args.minTokens === undefined || file.tokenCount >= args.minTokens) &&
+		(args.maxTokens === undefined || file.tokenCount <= args.maxTokens)
+	);
+
+	let shown = [...matched];
+	if (args.sortBy) {
+		shown.sort(compareFiles(args.sortBy, args.order));
+	}
+	if (args.limit !== undefined) {
+		shown = shown.slice(0, args.limit);
+	}
+	return { matched, shown };
+}
+
+function compareFiles(
+	sortBy: NonNullable<AnalyzeDirectoryArgs["sortBy"]>,
+	order: AnalyzeDirectoryArgs["order"]
+): (a: FileInfo, b: FileInfo) => number {
+	const direction = (order ?? (sortBy === "path" ? "asc" : "desc")) === "asc" ? 1 : -1;
+	return (a, b) => {
+		const difference = sortBy === "tokens"
+			? a.tokenCount - b.tokenCount
+			: sortBy === "lines"
+				? a.lineCount - b.lineCount
+				: 0;
+		return direction * (difference || a.path.localeCompare(b.path));
+	};
+}
+
+// Choose files that fit within a token budget, seeds first, then by strategy
+async function packFiles(
+	rootPath: string,
+	files: FileInfo[],
+	budget: number,
+	seeds: string[],
+	strategy: PackStrategy
+): Promise<PackContextResult> {
+	// Seeds may be given as absolute paths; match them relative to the root
+	const seedPatterns = seeds.map(seed =>
+		path.isAbsolute(seed) ? path.relative(rootPath, seed) : seed
+	);
+	const isSeed = createPathMatcher(seedPatterns);
+	const bySize = (a: FileInfo, b: FileInfo) => a.tokenCount - b.tokenCount || a.path.localeCompare(b.path);
+
+	const seedFiles = files.filter(f => isSeed(f.path)).sort(bySize);
+	let rest = files.filter(f => !isSeed(f.path));
+	// Files the strategy leaves out whatever the budget; they are still listed as omitted
+	let excluded: FileInfo[] = [];
+
+	switch (strategy) {
+		case "smallest":
+			rest.sort(bySize);
+			break;
+		case "siblings": {
+			if (seedFiles.length === 0) {
+				throw new Error('The "siblings" strategy needs seeds that match at least one file');
+			}
+			const seedDirs = new Set(seedFiles.map(f => path.dirname(f.path)));
+			excluded = rest.filter(f => !seedDirs.has(path.dirname(f.path))).sort(bySize);
+			rest = rest.filter(f => seedDirs.has(path.dirname(f.path))).sort(bySize);
+			break;
+		}
+		case "recent": {
+			const mtimes = new Map<string, number>();
+			for (const file of rest) {
+				try {
+					mtimes.set(file.path, (await stat(path.join(rootPath, file.path))).mtimeMs);
+				} catch {
+					mtimes.set(file.path, 0);
+				}
+			}
+			rest.sort((a, b) => mtimes.get(b.path)! - mtimes.get(a.path)! || bySize(a, b));
+			break;
+		}
+	}
+
+	const packed: FileInfo[] = [];
+	const omitted: FileInfo[] = [];
+	let totalTokens = 0;
+
+	// Keep going after a miss so smaller files later in the order can still fit
+	for (const file of [...seedFiles, ...rest]) {
+		if (totalTokens + file.tokenCount <= budget) {
+			packed.push(file);
+			totalTokens += file.tokenCount;
+		} else {
+			omitted.push(file);
+		}
+	}
+	omitted.push(...excluded);
+
+	return { packed, omitted, totalTokens };
+}
+
+// Available tools; the config can limit which are enabled
+const TOOLS = [
+	{
+		name: "analyze_directory",
+		description:
+			"Analyzes a directory to provide information about contained files, " +
+			"including token counts and line counts. Respects .gitignore rules " +
+			"in each directory. Skips binary, minified and oversized files (listing them " +
+			"at the end) and recursively processes " +
+			"subdirectories. Token counts are cached on disk and reused for unchanged files. " +
+			"Files can be filtered by glob, extension, depth and token size, sorted, limited " +
+			"to the top N, and printed as a flat list, an indented tree with per-directory " +
+			"totals, or JSON.",
+		inputSchema: zodToJsonSchema(AnalyzeDirectorySchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "read_files",
+		description:
+			"Read the contents of multiple files. Each file is independently validated " +
+			"and read, with errors returned per-file rather than failing the entire operation. " +
+			"Binary, minified and oversized files are skipped with an error message, and " +
+			"UTF-16 files are decoded. Each entry may request a line range, " +
+			"a byte range or a maximum token count; partial reads report the range returned, an " +
+			"estimate of the tokens left in the file and, when cut short, a cursor to pass back to continue.",
+		inputSchema: zodToJsonSchema(ReadFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "pack_context",
+		description:
+			"Select and read a set of files from a directory that fits within a token budget. " +
+			"Seed files are packed first, then the remaining files in the order given by the " +
+			"strategy. Returns the packed files in the same format as read_files, followed by " +
+			"the files that were left out and their token counts.",
+		inputSchema: zodToJsonSchema(PackContextSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "search_code",
+		description:
+			"Search file contents under a directory for a literal string or regular expression, " +
+			"line by line. Respects .gitignore rules and skips binary files. Results are grouped " +
+			"by file with line numbers and surrounding context, and capped by a token budget; " +
+			"files that didn't fit are counted in a note at the end.",
+		inputSchema: zodToJsonSchema(SearchCodeSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "related_files",
+		description:
+			"Find the files related to a file through imports: its dependencies (files it imports) " +
+			"and dependents (files that import it), up to a number of steps. Understands " +
+			"TypeScript/JavaScript import, export-from and require, including tsconfig paths " +
+			"aliases, and Python imports; external packages are left out. Returns each file " +
+			"with line and token counts, the total, and the list of paths to pass to read_files.",
+		inputSchema: zodToJsonSchema(RelatedFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "git_changed_files",
+		description:
+			"List the files changed in a git repository under a directory, with their current " +
+			"line and token counts. By default shows unstaged and untracked changes; set staged " +
+			"for staged changes, or base to compare the working tree with where the branch forked " +
+			"from a ref such as main.",
+		inputSchema: zodToJsonSchema(GitChangedFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "git_diff",
+		description:
+			"Get the git diff for files under a directory, one block per file with its token count. " +
+			"Takes the same staged/base options as git_changed_files (untracked files have no diff). " +
+			"Diffs beyond the token budget are left out and listed at the end.",
+		inputSchema: zodToJsonSchema(GitDiffSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "git_recent_files",
+		description:
+			"List the files under a directory ordered by the most recent commit that changed them, " +
+			"newest first, with line and token counts. Useful for finding the code being worked on.",
+		inputSchema: zodToJsonSchema(GitRecentFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "outline_files",
+		description:
+			"List the declarations in TypeScript, JavaScript and Python files: functions, " +
+			"classes, methods, interfaces, types, enums and exported constants, with their " +
+			"line ranges and token counts. Nested declarations are indented under their " +
+			"parents. Use the line ranges with read_files to read a single symbol.",
+		inputSchema: zodToJsonSchema(OutlineFilesSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "count_tokens",
+		description:
+			"Count the tokens in a piece of text and/or files under one or more tokenizers, " +
+			"side by side, to compare costs across models. Defaults to the server's tokenizer. " +
+			"Available tokenizers: " + TokenizerModelSchema.options.join(', '),
+		inputSchema: zodToJsonSchema(CountTokensSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "token_cache",
+		description:
+			"Inspect or clear the on-disk cache of token counts used by analyze_directory. " +
+			"Counts are cached per tokenizer and reused for files whose size, modification " +
+			"time or content hash are unchanged.",
+		inputSchema: zodToJsonSchema(TokenCacheSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	}
+];
+
+try {
+	checkConfiguredTools(config.codeContext.tools, TOOLS.map(tool => tool.name), config.file);
+} catch (error) {
+	console.error(error instanceof Error ? error.message : error);
+	process.exit(1);
+}
+
+function isToolEnabled(name: string): boolean {
+	return config.codeContext.tools?.includes(name) ?? true;
+}
+
+// List the enabled tools
+async function listTools(): Promise<ListToolsResult> {
+	return {
+		tools: TOOLS.filter(tool => isToolEnabled(tool.name)),
+	};
+}
+
+interface AnalysisTreeNode {
+	// Name of this file or directory within its parent
+	path: string;
+	lineCount: number;
+	tokenCount: number;
+	children: Map<string, AnalysisTreeNode>;
+	isFile: boolean;
+}
+
+// Build a directory tree from file paths, rolling line and token counts up into each directory
+function buildAnalysisTree(files: FileInfo[]): AnalysisTreeNode {
+	const root: AnalysisTreeNode = { path: '', lineCount: 0, tokenCount: 0, children: new Map(), isFile: false };
+	for (const file of files) {
+		const parts = file.path.split(path.sep);
+		let node = root;
+		node.lineCount += file.lineCount;
+		node.tokenCount += file.tokenCount;
+		parts.forEach((part, index) => {
+			let child = node.children.get(part);
+			if (!child) {
+				child = { path: part, lineCount: 0, tokenCount: 0, children: new Map(), isFile: index === parts.length - 1 };
+				node.children.set(part, child);
+			}
+			child.lineCount += file.lineCount;
+			child.tokenCount += file.tokenCount;
+			node = child;
+		});
+	}
+	return root;
+}
+
+function formatAnalysisTree(node: AnalysisTreeNode, args: AnalyzeDirectoryArgs, indent = ''): string[] {
+	const children = [...node.children.values()].sort(compareFiles(args.sortBy ?? "path", args.order));
+	return children.flatMap(child => [
+		`${indent}${child.path}${child.isFile ? '' : '/'} ${child.lineCount} ${child.tokenCount}`,
+		...formatAnalysisTree(child, args, indent + '  ')
+	]);
+}
+
+// Format directory analysis results
+function formatAnalysisResponse(response: AnalyzeDirectoryResponse, args: AnalyzeDirectoryArgs): string {
+	if (args.format === "json") {
+		return JSON.stringify(response, null, 2);
+	}
+
+	const lines = args.format === "tree"
+		? [
+			'# Format: name lineCount tokenCount (directories show the totals of the files listed under them)',
+			...formatAnalysisTree(buildAnalysisTree(response.files), args)
+		]
+		: [
+			'# Format: filename lineCount tokenCount',
+			...response.files.map(f => `${f.path} ${f.lineCount} ${f.tokenCount}`)
+		];
+	lines.push(
+		`TOTALS ${response.totalFiles} ${response.totalTokens}`,
+		`# Tokenizer: ${response.tokenizer}`,
+		`# Token cache hits: ${response.cacheHits}`
+	);
+	if (response.estimated) {
+		lines.push(formatEstimateNote([response.tokenizer]));
+	}
+	if (response.skipped.length > 0) {
+		lines.push(
+			'# Skipped files (not counted): filename reason',
+			...response.skipped.map(f => `SKIPPED ${f.path} ${f.reason}`)
+		);
+	}
+	if (response.files.length < response.totalFiles) {
+		lines.push(`# Showing ${response.files.length} of ${response.totalFiles} files`);
+	}
+	if (response.incomplete) {
+		lines.push(`# INCOMPLETE: ${formatTimeLimitNote()}; only the files above were counted`);
+	}
+	return lines.join('\n');
+}
+
+function formatTimeLimitNote(): string {
+	return `stopped at the ${timeLimit} second time limit (--time-limit)`;
+}
+
+// Flag counts from tokenizers that fell back to the heuristic estimator, so they aren't mistaken for exact ones
+function formatEstimateNote(models: TokenizerModel[]): string {
+	return `# ESTIMATED: ${models.join(', ')} could not be loaded, so token counts are approximate (character/word heuristic)`;
+}
+
+// Append the estimate note to a response when any of the given tokenizers fell back to estimates
+async function withEstimateNote(text: string, models: TokenizerModel[]): Promise<string> {
+	const estimated: TokenizerModel[] = [];
+	for (const model of models) {
+		if (await isEstimated(model)) {
+			estimated.push(model);
+		}
+	}
+	return estimated.length > 0 ? `${text}\n\n${formatEstimateNote(estimated)}` : text;
+}
+
+// Format token cache statistics
+function formatCacheStats(stats: CacheStats[]): string {
+	if (stats.length === 0) {
+		return 'Token cache is empty';
+	}
+	return [
+		'# Format: tokenizer entries bytes sessionHits sessionMisses file',
+		...stats.map(s => `${s.model} ${s.entries} ${s.bytes} ${s.hits} ${s.misses} ${s.file}`)
+	].join('\n');
+}
+
+// Describe a partial read; whole-file reads carry no extra metadata
+function formatReadRange(file: ReadFileResult): string {
+	if (!file.range || (file.range.startByte === 0 && !file.tokensRemaining && !file.cursor)) {
+		return '';
+	}
+	const { startLine, endLine, startByte, endByte } = file.range;
+	let meta = `<range>lines ${startLine}-${endLine}, bytes ${startByte}-${endByte}</range>`;
+	meta += file.tokensRemaining
+		? `<tokens_remaining estimated="true">${file.tokensRemaining}</tokens_remaining>`
+		: '<tokens_remaining>0</tokens_remaining>';
+	if (file.cursor) {
+		meta += `<cursor>${file.cursor}</cursor>`;
+	}
+	return meta;
+}
+
+// Format file reading results with zero indentation
+function formatReadFilesResponse(results: ReadFileResult[]): string {
+	return results.map(file => {
+		if (file.error) {
+			return `<document><source>${file.path}</source><e>${file.error}</e></document>`;
+		}
+		const redactions = file.redactions ? `<redactions>${file.redactions}</redactions>` : '';
+		return `<document><source>${file.path}</source>${formatReadRange(file)}${redactions}<document_content>${file.content}</document_content></document>`;
+	}).join('\n\n');
+}
+
+// Format outlines with nested symbols indented under their parents
+function formatOutlineResponse(results: OutlineFileResult[]): string {
+	const formatSymbols = (symbols: OutlineEntry[], indent: string): string[] =>
+		symbols.flatMap(symbol => [
+			`${indent}${symbol.kind} ${symbol.name} ${symbol.startLine}-${symbol.endLine} ${symbol.tokenCount}`,
+			...formatSymbols(symbol.children, indent + '  ')
+		]);
+
+	return results.map(file => {
+		if (file.error) {
+			return `<outline><source>${file.path}</source><e>${file.error}</e></outline>`;
+		}
+		return [
+			`<outline><source>${file.path}</source>`,
+			'# Format: kind name startLine-endLine tokenCount',
+			...formatSymbols(file.symbols, ''),
+			'</outline>'
+		].join('\n');
+	}).join('\n\n');
+}
+
+// Counts of a listed file, or why it wasn't counted; deleted files have neither
+function formatCounts(file: CountedFile): string {
+	if (file.reason !== undefined) {
+		return ` (${file.reason})`;
+	}
+	return file.tokenCount !== undefined ? ` ${file.lineCount} ${file.tokenCount}` : '';
+}
+
+function formatGitChangedFiles(files: GitChangedFileInfo[], incomplete: boolean): string {
+	if (files.length === 0 && !incomplete) {
+		return 'No changes';
+	}
+	const totalTokens = files.reduce((sum, file) => sum + (file.tokenCount ?? 0), 0);
+	const lines = [
+		'# Format: status filename lineCount tokenCount',
+		...files.map(file =>
+			`${file.status} ${file.path}${formatCounts(file)}${file.oldPath ? ` (from ${file.oldPath})` : ''}`),
+		`TOTALS ${files.length} ${totalTokens}`
+	];
+	if (incomplete) {
+		lines.push(`# INCOMPLETE: ${formatTimeLimitNote()}; only the files above were counted`);
+	}
+	return lines.join('\n');
+}
+
+function formatGitDiff(response: GitDiffResponse, maxTokens: number): string {
+	if (response.diffs.length === 0 && response.dropped.length === 0 && response.withheld.length === 0 &&
+		!response.incomplete) {
+		return 'No changes';
+	}
+	const sections = [
+		`# ${response.diffs.length} changed files (${response.totalTokens} tokens)`,
+		...response.diffs.map(diff =>
+			`<diff><source>${diff.path}</source><tokens>${diff.tokenCount}</tokens>\n${diff.patch}\n</diff>`)
+	];
+	if (response.dropped.length > 0) {
+		sections.push([
+			`<omitted>`,
+			`# Left out to stay within ${maxTokens} tokens; request them with paths or raise maxTokens`,
+			'# Format: filename tokenCount',
+			...response.dropped.map(diff => `${diff.path} ${diff.tokenCount}`),
+			'</omitted>'
+		].join('\n'));
+	}
+	if (response.incomplete) {
+		sections.push(`# INCOMPLETE: ${formatTimeLimitNote()}; the other changed files were left out`);
+	}
+	if (response.withheld.length > 0) {
+		sections.push([
+			`<withheld>`,
+			'# Changed, but matching a deny pattern, so their changes are not shown',
+			...response.withheld,
+			'</withheld>'
+		].join('\n'));
+	}
+	return sections.join('\n\n');
+}
+
+function formatRelatedFiles(rootPath: string, files: RelatedFile[], incomplete: boolean): string {
+	const totalTokens = files.reduce((sum, file) => sum + (file.tokenCount ?? 0), 0);
+	const lines = [
+		`# Related files under ${rootPath}`,
+		'# Format: relation depth filename lineCount tokenCount',
+		...files.map(file => `${file.relation} ${file.depth} ${file.path}${formatCounts(file)}`),
+		`TOTALS ${files.length} ${totalTokens}`,
+		`# Paths for read_files: ${JSON.stringify(files.map(file => path.join(rootPath, file.path)))}`
+	];
+	if (incomplete) {
+		lines.push(`# INCOMPLETE: ${formatTimeLimitNote()}`);
+	}
+	return lines.join('\n');
+}
+
+function formatGitRecentFiles(files: (CountedFile & { timestamp: number })[], incomplete: boolean): string {
+	if (files.length === 0 && !incomplete) {
+		return 'No committed files found';
+	}
+	const lines = [
+		'# Format: filename lastCommitDate lineCount tokenCount',
+		...files.map(file => `${file.path} ${new Date(file.timestamp * 1000).toISOString()}${formatCounts(file)}`)
+	];
+	if (incomplete) {
+		lines.push(`# INCOMPLETE: ${formatTimeLimitNote()}; only the files above were counted`);
+	}
+	return lines.join('\n');
+}
+
+// Format search results with a summary and a note about anything dropped for the budget
+function formatSearchResponse(response: SearchCodeResponse, maxTokens: number): string {
+	const sections = [
+		`# ${response.matchCount} matching lines in ${response.fileCount} files (${response.totalTokens} tokens)`,
+		...response.blocks
+	];
+	if (response.droppedFiles > 0) {
+		sections.push(
+			`# Dropped ${response.droppedMatches} matching lines in ${response.droppedFiles} more files ` +
+			`to stay within ${maxTokens} tokens; narrow the search with include/exclude or raise maxTokens`
+		);
+	}
+	if (response.incomplete) {
+		sections.push(`# INCOMPLETE: ${formatTimeLimitNote()}`);
+	}
+	return sections.join('\n\n');
+}
+
+// Format token counts with one row per source and one column per tokenizer
+function formatCountTokensResponse(tokenizers: TokenizerModel[], rows: CountTokensRow[]): string {
+	return [
+		`# Format: source ${tokenizers.join(' ')}`,
+		...rows.map(row => row.error
+			? `${row.source} ERROR ${row.error}`
+			: `${row.source} ${row.counts.join(' ')}`)
+	].join('\n');
+}
+
+// Format packed context with a summary header and the list of omitted files
+function formatPackContextResponse(
+	result: PackContextResult,
+	budget: number,
+	strategy: PackStrategy,
+	documents: ReadFileResult[]
+): string {
+	const sections = [
+		`# Packed ${result.packed.length} files, ${result.totalTokens} of ${budget} tokens (strategy: ${strategy})`
+	];
+	if (documents.length > 0) {
+		sections.push(formatReadFilesResponse(documents));
+	}
+	if (result.omitted.length > 0) {
+		sections.push([
+			'<omitted>',
+			'# Format: filename tokenCount',
+			...result.omitted.map(f => `${f.path} ${f.tokenCount}`),
+			'</omitted>'
+		].join('\n'));
+	}
+	return sections.join('\n\n');
+}
+
+// Implement the tools
+async function callTool(
+	request: CallToolRequest,
+	extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+	try {
+		const { name, arguments: args } = request.params;
+		if (!isToolEnabled(name)) {
+			throw new Error(`Tool ${name} is disabled by the config file`);
+		}
+		// Long walks and searches stop at the time limit and return what they have so far.
+		// A cancelled request stops too, but the SDK doesn't send its response.
+		const signal = timeLimit > 0
+			? AbortSignal.any([extra.signal, AbortSignal.timeout(timeLimit * 1000)])
+			: extra.signal;
+		const processOptions: ProcessOptions = {
+			signal,
+			onProgress: createProgressReporter(request.params._meta?.progressToken, extra.sendNotification)
+		};
+
+		switch (name) {
+			case "analyze_directory": {
+				const parsed = AnalyzeDirectorySchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const response = await analyzeDirectory(parsed.data, processOptions);
 				return {
 					content: [{
 						type: "text",
-						text: formatAnalysisResponse(response)
+						text: formatAnalysisResponse(response, parsed.data)
 					}],
 				};
 			}
@@ -346,11 +2015,200 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 					throw new Error(`Invalid arguments: ${parsed.error}`);
 				}
 
-				const results = await readFiles(parsed.data.paths);
+				const tokenizer = parsed.data.tokenizer ?? selectedTokenizer;
+				// The server's setting is a floor: a call can ask for redaction, but not opt out of it
+				const results = await readFiles(parsed.data.paths, tokenizer, parsed.data.redact || redactByDefault);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatReadFilesResponse(results), [tokenizer])
+					}],
+				};
+			}
+
+			case "pack_context": {
+				const parsed = PackContextSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const { budget, seeds, strategy } = parsed.data;
+				const tokenizer = parsed.data.tokenizer ?? selectedTokenizer;
+				const validPath = await validatePath(parsed.data.path);
+				const { files, incomplete } = await processDirectory(validPath, {
+					...processOptions,
+					tokenizer
+				});
+				if (incomplete) {
+					throw new Error(`Analyzing the directory ${formatTimeLimitNote()}; pack a smaller directory`);
+				}
+				const result = await packFiles(validPath, files, budget, seeds, strategy);
+				const documents = await readFiles(
+					result.packed.map(f => path.join(validPath, f.path)),
+					tokenizer
+				);
+
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(
+							formatPackContextResponse(result, budget, strategy, documents),
+							[tokenizer]
+						)
+					}],
+				};
+			}
+
+			case "search_code": {
+				const parsed = SearchCodeSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const validPath = await validatePath(parsed.data.path);
+				const response = await searchDirectory(validPath, parsed.data, signal);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatSearchResponse(response, parsed.data.maxTokens), [selectedTokenizer])
+					}],
+				};
+			}
+
+			case "related_files": {
+				const parsed = RelatedFilesSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const validPath = await validatePath(parsed.data.path);
+				const rootPath = parsed.data.root !== undefined
+					? await validatePath(parsed.data.root)
+					: sandbox.rootOf(validPath)!.path;
+				if (!isWithin(rootPath, validPath)) {
+					throw new Error(`${parsed.data.path} is not inside ${rootPath}`);
+				}
+				if (!(await stat(validPath)).isFile()) {
+					throw new Error(`Not a file: ${parsed.data.path}`);
+				}
+				const files = await findRelatedFiles(validPath, rootPath, parsed.data, signal);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(
+							formatRelatedFiles(rootPath, files, signal.aborted),
+							[parsed.data.tokenizer ?? selectedTokenizer]
+						)
+					}],
+				};
+			}
+
+			case "git_changed_files": {
+				const parsed = GitChangedFilesSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const tokenizer = parsed.data.tokenizer ?? selectedTokenizer;
+				const validPath = await validatePath(parsed.data.path);
+				const files = await gitChangedFiles(validPath, parsed.data, tokenizer, signal);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatGitChangedFiles(files, signal.aborted), [tokenizer])
+					}],
+				};
+			}
+
+			case "git_diff": {
+				const parsed = GitDiffSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const tokenizer = parsed.data.tokenizer ?? selectedTokenizer;
+				const validPath = await validatePath(parsed.data.path);
+				const response = await gitDiff(validPath, parsed.data, tokenizer, signal);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatGitDiff(response, parsed.data.maxTokens), [tokenizer])
+					}],
+				};
+			}
+
+			case "git_recent_files": {
+				const parsed = GitRecentFilesSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const tokenizer = parsed.data.tokenizer ?? selectedTokenizer;
+				const validPath = await validatePath(parsed.data.path);
+				const files = await gitRecentFiles(validPath, parsed.data, tokenizer, signal);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatGitRecentFiles(files, signal.aborted), [tokenizer])
+					}],
+				};
+			}
+
+			case "outline_files": {
+				const parsed = OutlineFilesSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const results = await outlineFiles(parsed.data.paths);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatOutlineResponse(results), [selectedTokenizer])
+					}],
+				};
+			}
+
+			case "count_tokens": {
+				const parsed = CountTokensSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const tokenizers = parsed.data.tokenizers.length > 0
+					? [...new Set(parsed.data.tokenizers)]
+					: [selectedTokenizer];
+				const rows = await countTokens(parsed.data.text, parsed.data.paths, tokenizers);
+				return {
+					content: [{
+						type: "text",
+						text: await withEstimateNote(formatCountTokensResponse(tokenizers, rows), tokenizers)
+					}],
+				};
+			}
+
+			case "token_cache": {
+				const parsed = TokenCacheSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				if (parsed.data.action === "clear") {
+					const removed = await clearTokenCountCache(parsed.data.tokenizer);
+					return {
+						content: [{
+							type: "text",
+							text: removed.length > 0
+								? `Cleared token cache:\n${removed.join('\n')}`
+								: 'Token cache was already empty'
+						}],
+					};
+				}
+
 				return {
 					content: [{
 						type: "text",
-						text: formatReadFilesResponse(results)
+						text: formatCacheStats(await getCacheStats())
 					}],
 				};
 			}
@@ -365,76 +2223,206 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 			isError: true,
 		};
 	}
-});
+}
 
-// Define available prompts
-enum PromptName {
-	ANALYZE_CODEBASE = "analyze-codebase"
-}
-
-const AVAILABLE_PROMPTS = {
-	[PromptName.ANALYZE_CODEBASE]: {
-		name: PromptName.ANALYZE_CODEBASE,
-		description: "Analyzes the codebase structure, providing guidance on token counts and file sizes",
-		messages: [
-			{
-				role: "user",
-				content: {
-					type: "text",
-					text: `When analyzing codebases using code-context tools:
-
-1. Start with analyzing the directory structure:
-   - Use analyze_directory to get token counts and line counts
-   - Pay attention to file sizes to avoid token limit issues
-   - Be mindful of binary files and .gitignore rules
-
-2. When reading files:
-   - Check token counts before loading large files
-   - Use read_files selectively for relevant content
-   - Consider loading files in batches if needed
-   
-3. Provide clear summaries:
-   - Total size of the codebase
-   - Largest files that need special handling
-   - Key files that warrant detailed review
-
-Remember: The tools handle .gitignore rules and binary file detection automatically.`
-				}
-			}
-		]
+// Live data that prompt templates can embed with {{tool:arg}}
+const PROMPT_EMBEDS: Record<string, PromptEmbed> = {
+	analyze_directory: async (value) => {
+		const args = AnalyzeDirectorySchema.parse({ path: value });
+		return formatAnalysisResponse(await analyzeDirectory(args), args);
 	}
 };
 
-// Implement prompt listing
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
+// Implement prompt listing; prompt files are re-read so edits show up without a restart
+async function listPrompts(): Promise<ListPromptsResult> {
+	const prompts = await loadPrompts(promptsDir);
 	return {
-		prompts: Object.values(AVAILABLE_PROMPTS)
+		prompts: prompts.map(prompt => ({
+			name: prompt.name,
+			description: prompt.description,
+			arguments: prompt.arguments
+		}))
 	};
-});
+}
 
 // Implement prompt retrieval
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-	const { name, arguments: args } = request.params;
-	console.error('GetPrompt Request:', JSON.stringify({ name, args }, null, 2));
-	console.error('Available prompts:', Object.keys(AVAILABLE_PROMPTS));
-
-	const prompt = AVAILABLE_PROMPTS[name];
+async function getPrompt(request: GetPromptRequest): Promise<GetPromptResult> {
+	const { name, arguments: args = {} } = request.params;
+	const prompt = (await loadPrompts(promptsDir)).find(p => p.name === name);
 
 	if (!prompt) {
-		console.error('Prompt not found:', name);
 		throw new Error(`Unknown prompt: ${name}`);
 	}
 
-	return prompt;
-});
+	const messages = await renderPrompt(prompt, args, PROMPT_EMBEDS);
+	return {
+		description: prompt.description,
+		messages: messages.map(message => ({
+			role: message.role,
+			content: { type: "text", text: message.text }
+		}))
+	};
+}
+
+// Expose allowed directories and the files under them as resources
+function parseResourceUri(uri: string): string {
+	if (!uri.startsWith('file://')) {
+		throw new Error(`Unsupported resource URI: ${uri}`);
+	}
+	return fileURLToPath(uri);
+}
+
+async function listResources(): Promise<ListResourcesResult> {
+	return {
+		resources: sandbox.directories.map(({ path: dir, alias }) => ({
+			uri: pathToFileURL(dir).href,
+			name: alias ?? (path.basename(dir) || dir),
+			description: `Allowed directory ${dir}. Reading it lists the files under it.`,
+			mimeType: "text/plain"
+		}))
+	};
+}
+
+async function listResourceTemplates(): Promise<ListResourceTemplatesResult> {
+	return {
+		resourceTemplates: sandbox.directories.map(({ path: dir }) => ({
+			uriTemplate: `${pathToFileURL(dir).href}/{+path}`,
+			name: `Files in ${path.basename(dir) || dir}`,
+			description: "Text files under this directory, honoring .gitignore rules. Binary files can't be read.",
+			mimeType: "text/plain"
+		}))
+	};
+}
+
+async function readResource(request: ReadResourceRequest): Promise<ReadResourceResult> {
+	const { uri } = request.params;
+	const validPath = await validatePath(parseResourceUri(uri));
+
+	if (await isIgnoredPath(validPath)) {
+		throw new Error(`Resource is excluded by .gitignore: ${uri}`);
+	}
+
+	// Directories read as a listing of the files under them
+	if ((await stat(validPath)).isDirectory()) {
+		const files = await collectFiles(validPath, validPath);
+		return {
+			contents: [{
+				uri,
+				mimeType: "text/plain",
+				text: files.map(file => pathToFileURL(path.join(validPath, file)).href).join('\n')
+			}]
+		};
+	}
+
+	const text = await readTextFile(validPath);
+	return {
+		contents: [{
+			uri,
+			mimeType: "text/plain",
+			text: redactByDefault ? redactSecrets(text).content : text
+		}]
+	};
+}
+
+// Set up a server with the tools, prompts and resources. Over stdio there is one; over
+// HTTP each client session gets its own, sharing the tokenizers, caches and sandbox.
+function createServer(): Server {
+	const server = new Server(
+		{
+			name: "code-context-mcp",
+			version: "0.1.0",
+		},
+		{
+			capabilities: {
+				tools: {},
+				prompts: {
+					listChanged: false
+				},
+				resources: {
+					subscribe: true,
+					// The allowed directories, listed as resources, follow the client's roots
+					listChanged: rootsMode !== "off"
+				},
+			},
+		}
+	);
+
+	server.setRequestHandler(ListToolsRequestSchema, listTools);
+	server.setRequestHandler(CallToolRequestSchema, callTool);
+	server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+	server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+	server.setRequestHandler(ListResourcesRequestSchema, listResources);
+	server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+	server.setRequestHandler(ReadResourceRequestSchema, readResource);
+
+	// Resource subscriptions, keyed by path, notified when the file changes on disk or, for a
+	// directory, when the files under it that aren't ignored are added, removed or renamed
+	const subscribedResources = new Map<string, string>();
+
+	const resourceWatcher = new FileWatcher((filePath) => {
+		const uri = subscribedResources.get(filePath);
+		if (uri) {
+			server.sendResourceUpdated({ uri }).catch(error =>
+				console.error('Error sending resource update notification:', error)
+			);
+		}
+	});
+
+	server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+		const { uri } = request.params;
+		const validPath = await validatePath(parseResourceUri(uri));
+		if (await isIgnoredPath(validPath)) {
+			throw new Error(`Resource is excluded by .gitignore: ${uri}`);
+		}
+		subscribedResources.set(validPath, uri);
+		// A file that doesn't exist yet is watched for its creation
+		const isDirectory = await stat(validPath).then(stats => stats.isDirectory(), () => false);
+		if (isDirectory) {
+			resourceWatcher.watchDirectory(validPath, async changedPath => !(await isIgnoredPath(changedPath)));
+		} else {
+			resourceWatcher.watch(validPath);
+		}
+		return {};
+	});
+
+	server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+		const { uri } = request.params;
+		const validPath = await validatePath(parseResourceUri(uri));
+		subscribedResources.delete(validPath);
+		resourceWatcher.unwatch(validPath);
+		return {};
+	});
+
+	followClientRoots(server, sandbox, configuredDirectories, rootsMode, () => {
+		server.sendResourceListChanged().catch(error =>
+			console.error('Error sending resource list changed notification:', error)
+		);
+	});
+
+	server.onclose = () => {
+		resourceWatcher.close();
+	};
+
+	return server;
+}
 
 // Start server
 async function runServer() {
-	const transport = new StdioServerTransport();
-	await server.connect(transport);
-	console.error("Code Context MCP Server running on stdio");
-	console.error("Using tokenizer:", selectedTokenizer, `(${TOKENIZER_OPTIONS[selectedTokenizer]})`);
-	console.error("Allowed directories:", normalizedDirectories);
+	if (transportOptions.transport === "http") {
+		await serveHttp(createServer, transportOptions);
+		console.error("Code Context MCP Server running on HTTP");
+	} else {
+		await createServer().connect(new StdioServerTransport());
+		console.error("Code Context MCP Server running on stdio");
+	}
+	console.error("Using tokenizer:", selectedTokenizer, `(${describeTokenizer(selectedTokenizer)})`);
+	console.error("Allowed directories:", sandbox.directories.map(dir => dir.path));
+	if (rootsMode !== "off") {
+		console.error(`Using client roots (${rootsMode})`);
+	}
+	if (redactByDefault) {
+		console.error("Redacting secrets in file contents");
+	}
 }
 
 runServer().catch((error) => {
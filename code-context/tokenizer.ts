@@ -1,7 +1,11 @@
-import { AutoTokenizer, env } from "@huggingface/transformers";
+import { AutoTokenizer, env, PreTrainedTokenizer } from "@huggingface/transformers";
+import * as path from "path";
+import { existsSync, statSync } from "fs";
+import { readFile } from "fs/promises";
+import { CACHE_DIR } from "./cache.js";
 
-// Configure the transformers environment
-env.cacheDir = './.cache';
+// Download models to a fixed location rather than one relative to the launcher's cwd
+env.cacheDir = path.join(CACHE_DIR, 'models');
 
 export const TOKENIZER_OPTIONS = {
 	"Xenova/gpt-4": "gpt-4 / gpt-3.5-turbo / text-embedding-ada-002",
@@ -19,36 +23,109 @@ export const TOKENIZER_OPTIONS = {
 	"Xenova/bert-base-cased": "bert-base-cased",
 } as const;
 
-export type TokenizerModel = keyof typeof TOKENIZER_OPTIONS;
+// A model from TOKENIZER_OPTIONS, or the absolute path of a local tokenizer.json
+export type TokenizerModel = keyof typeof TOKENIZER_OPTIONS | (string & {});
 
-const DEFAULT_MODEL: TokenizerModel = "Xenova/claude-tokenizer";
+export const DEFAULT_MODEL: TokenizerModel = "Xenova/claude-tokenizer";
 
-// Use WeakMap to allow better garbage collection
-const tokenizerCache = new WeakMap<object, any>();
-const cacheKey = {};
+// A loaded tokenizer, or the reason it couldn't be loaded and counts are estimated instead
+type LoadedTokenizer =
+	| { estimated: false; tokenizer: PreTrainedTokenizer }
+	| { estimated: true; reason: string };
+
+// Loaded tokenizers, keyed by model so several can be used side by side.
+// Promises are stored so concurrent callers share a single load.
+const tokenizers = new Map<TokenizerModel, Promise<LoadedTokenizer>>();
+
+export function isKnownModel(model: string): model is keyof typeof TOKENIZER_OPTIONS {
+	return Object.hasOwn(TOKENIZER_OPTIONS, model);
+}
+
+// Resolve a --tokenizer path to the tokenizer.json it names, or undefined if there is none
+export function resolveLocalTokenizer(spec: string): string | undefined {
+	const resolved = path.resolve(spec);
+	if (!existsSync(resolved)) {
+		return undefined;
+	}
+	const file = statSync(resolved).isDirectory() ? path.join(resolved, 'tokenizer.json') : resolved;
+	return existsSync(file) ? file : undefined;
+}
+
+export function describeTokenizer(model: TokenizerModel): string {
+	return isKnownModel(model) ? TOKENIZER_OPTIONS[model] : `local tokenizer at ${model}`;
+}
+
+// Build a tokenizer from a local tokenizer.json and the tokenizer_config.json next to it, if any,
+// picking the tokenizer class the same way AutoTokenizer does
+async function loadLocalTokenizer(file: string): Promise<PreTrainedTokenizer> {
+	const tokenizerJSON = JSON.parse(await readFile(file, 'utf-8'));
+	const configFile = path.join(path.dirname(file), 'tokenizer_config.json');
+	const tokenizerConfig = existsSync(configFile) ? JSON.parse(await readFile(configFile, 'utf-8')) : {};
+	const className = tokenizerConfig.tokenizer_class?.replace(/Fast$/, '') ?? 'PreTrainedTokenizer';
+	const TokenizerClass =
+		(AutoTokenizer.TOKENIZER_CLASS_MAPPING as Record<string, typeof PreTrainedTokenizer>)[className] ??
+		PreTrainedTokenizer;
+	return new TokenizerClass(tokenizerJSON, tokenizerConfig);
+}
+
+// Load a tokenizer once per model. If it can't be loaded (offline, missing files), the model
+// falls back to the heuristic estimator for the rest of the session instead of failing every call.
+function loadTokenizer(model: TokenizerModel): Promise<LoadedTokenizer> {
+	let loaded = tokenizers.get(model);
+	if (!loaded) {
+		console.error(`Loading tokenizer for model: ${model} (${describeTokenizer(model)})`);
+		const load = isKnownModel(model) ? AutoTokenizer.from_pretrained(model) : loadLocalTokenizer(model);
+		loaded = load.then(
+			(tokenizer): LoadedTokenizer => ({ estimated: false, tokenizer }),
+			(error): LoadedTokenizer => {
+				const reason = error instanceof Error ? error.message : String(error);
+				console.error(`Could not load tokenizer ${model}, falling back to estimated counts: ${reason}`);
+				return { estimated: true, reason };
+			}
+		);
+		tokenizers.set(model, loaded);
+	}
+	return loaded;
+}
+
+// Models whose tokenizers have been requested so far
+export function getLoadedTokenizers(): TokenizerModel[] {
+	return [...tokenizers.keys()];
+}
+
+// Whether counts for a model are heuristic estimates because its tokenizer couldn't be loaded
+export async function isEstimated(model: TokenizerModel): Promise<boolean> {
+	return tokenizers.has(model) && (await loadTokenizer(model)).estimated;
+}
+
+// Rough token count for when no tokenizer is available: word characters count as
+// one token per four characters, and every other non-space character as a token
+export function estimateTokens(text: string): number {
+	let count = 0;
+	for (const match of text.matchAll(/\w+|[^\w\s]/gu)) {
+		count += Math.ceil(match[0].length / 4);
+	}
+	return count;
+}
 
 export async function tokenize(text: string, model: TokenizerModel = DEFAULT_MODEL): Promise<{
 	tokenCount: number;
+	estimated: boolean;
 }> {
-	try {
-		if (!tokenizerCache.has(cacheKey)) {
-			console.error(`Loading tokenizer for model: ${model} (${TOKENIZER_OPTIONS[model]})`);
-			const tokenizer = await AutoTokenizer.from_pretrained(model);
-			tokenizerCache.set(cacheKey, tokenizer);
-		}
-
-		const tokenizer = tokenizerCache.get(cacheKey);
-		if (!tokenizer) {
-			throw new Error('Failed to initialize tokenizer');
-		}
+	const loaded = await loadTokenizer(model);
+	if (loaded.estimated) {
+		return { tokenCount: estimateTokens(text), estimated: true };
+	}
 
-		const encodedOutput = await Promise.resolve(tokenizer.encode(text));
+	try {
+		const encodedOutput = await Promise.resolve(loaded.tokenizer.encode(text));
 
 		// Handle both array-like objects and actual arrays
 		const tokens = Array.isArray(encodedOutput) ? encodedOutput : Array.from(encodedOutput);
 
 		return {
 			tokenCount: tokens.length,
+			estimated: false,
 		};
 	} catch (error) {
 		console.error(
@@ -0,0 +1,123 @@
+import * as path from "path";
+import { watch, type FSWatcher } from "fs";
+
+// Watches individual files for changes by watching their parent directories,
+// so editors that save by writing a new file and renaming it over the old one
+// are still noticed. Directories are watched recursively, and change when a file
+// under them is added, removed or renamed. Bursts of events for the same file or
+// directory are debounced.
+export class FileWatcher {
+	private directories = new Map<string, { watcher: FSWatcher; files: Set<string> }>();
+	private trees = new Map<string, FSWatcher>();
+	private pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+	constructor(
+		private readonly onChange: (filePath: string) => void,
+		private readonly debounceMs = 100
+	) {}
+
+	watch(filePath: string): void {
+		const directory = path.dirname(filePath);
+		let entry = this.directories.get(directory);
+		if (!entry) {
+			const watcher = watch(directory, (_event, filename) => {
+				if (filename) {
+					this.handleEvent(path.join(directory, filename.toString()));
+				}
+			});
+			watcher.on('error', (error) => {
+				console.error(`Error watching ${directory}:`, error);
+				this.closeDirectory(directory);
+			});
+			entry = { watcher, files: new Set() };
+			this.directories.set(directory, entry);
+		}
+		entry.files.add(filePath);
+	}
+
+	// Watch everything under a directory. Only paths that `include` accepts count as changes.
+	watchDirectory(directory: string, include: (changedPath: string) => Promise<boolean>): void {
+		if (this.trees.has(directory)) {
+			return;
+		}
+		const watcher = watch(directory, { recursive: true }, (event, filename) => {
+			// Changes to a file's content leave the directory's listing as it was
+			if (event !== 'rename' || !filename) {
+				return;
+			}
+			include(path.join(directory, filename.toString())).then(
+				included => {
+					if (included && this.trees.has(directory)) {
+						this.schedule(directory);
+					}
+				},
+				error => console.error(`Error checking a change under ${directory}:`, error)
+			);
+		});
+		watcher.on('error', (error) => {
+			console.error(`Error watching ${directory}:`, error);
+			this.closeTree(directory);
+		});
+		this.trees.set(directory, watcher);
+	}
+
+	unwatch(filePath: string): void {
+		if (this.trees.has(filePath)) {
+			this.closeTree(filePath);
+			return;
+		}
+		const directory = path.dirname(filePath);
+		const entry = this.directories.get(directory);
+		if (!entry) {
+			return;
+		}
+		entry.files.delete(filePath);
+		if (entry.files.size === 0) {
+			this.closeDirectory(directory);
+		}
+	}
+
+	close(): void {
+		for (const directory of [...this.directories.keys()]) {
+			this.closeDirectory(directory);
+		}
+		for (const directory of [...this.trees.keys()]) {
+			this.closeTree(directory);
+		}
+	}
+
+	private handleEvent(filePath: string): void {
+		if (!this.directories.get(path.dirname(filePath))?.files.has(filePath)) {
+			return;
+		}
+		this.schedule(filePath);
+	}
+
+	private schedule(filePath: string): void {
+		clearTimeout(this.pending.get(filePath));
+		this.pending.set(filePath, setTimeout(() => {
+			this.pending.delete(filePath);
+			this.onChange(filePath);
+		}, this.debounceMs));
+	}
+
+	private closeDirectory(directory: string): void {
+		const entry = this.directories.get(directory);
+		if (!entry) {
+			return;
+		}
+		entry.watcher.close();
+		for (const filePath of entry.files) {
+			clearTimeout(this.pending.get(filePath));
+			this.pending.delete(filePath);
+		}
+		this.directories.delete(directory);
+	}
+
+	private closeTree(directory: string): void {
+		this.trees.get(directory)?.close();
+		clearTimeout(this.pending.get(directory));
+		this.pending.delete(directory);
+		this.trees.delete(directory);
+	}
+}
@@ -0,0 +1,150 @@
+// code-context/config.ts and code-edit/config.ts are identical copies, as the two packages are
+// published separately. Change both together.
+
+import * as path from "path";
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+
+// Per-project settings shared by the code-context and code-edit servers, read from a
+// checked-in JSON file. The file is found by looking in the working directory and its
+// parents, or given explicitly with --config. Command line flags override it.
+
+export const CONFIG_FILE_NAMES = ["cogniteration.config.json", ".cogniteration.json"];
+
+const DirectorySchema = z.union([
+	z.string(),
+	z.object({
+		path: z.string().describe('Directory, relative to the config file'),
+		alias: z.string().regex(/^[\w.-]+$/, 'Aliases may only contain letters, digits, ".", "-" and "_"').optional()
+			.describe('Name that tool paths can start with instead of the directory, as @alias/file.ts'),
+		readOnly: z.boolean().default(false).describe('code-edit refuses to change files in this directory')
+	}).strict()
+]);
+
+const ToolsSchema = z.array(z.string()).optional().describe('Tools to enable; all tools when not set');
+
+const SizeSchema = z.union([
+	z.number().int().positive(),
+	z.string().regex(/^\d+[km]?b?$/i, 'Expected bytes, or a number with a k or m suffix')
+]);
+
+export const ConfigSchema = z.object({
+	directories: z.array(DirectorySchema).default([]),
+	ignore: z.array(z.string()).default([]).describe('Extra gitignore-style patterns for files to leave out'),
+	deny: z.array(z.string()).default([]).describe(
+		'Gitignore-style patterns for files that can never be read or written, e.g. ".env*"'
+	),
+	roots: z.enum(["off", "intersect", "replace"]).default("off").describe(
+		'How the roots the client provides change the allowed directories'
+	),
+	codeContext: z.object({
+		tokenizer: z.string().optional(),
+		maxFileSize: SizeSchema.optional(),
+		timeLimit: z.number().nonnegative().optional().describe(
+			'Seconds a directory analysis or search may run before returning what it has found; 0 for no limit'
+		),
+		redactSecrets: z.boolean().default(false).describe(
+			'Replace credentials in file contents with placeholders before returning or counting them'
+		),
+		tools: ToolsSchema
+	}).strict().default({}),
+	codeEdit: z.object({
+		historyFile: z.string().optional().describe(
+			'File to keep the edit history in, relative to the config file, so undo works after a restart (stdio only)'
+		),
+		historySize: SizeSchema.optional().describe('How many bytes of file content the edit history keeps'),
+		tools: ToolsSchema
+	}).strict().default({})
+}).strict();
+
+export interface DirectoryConfig {
+	// Absolute, normalized path
+	path: string;
+	alias?: string;
+	readOnly: boolean;
+}
+
+export type Config = Omit<z.infer<typeof ConfigSchema>, 'directories'> & {
+	directories: DirectoryConfig[];
+	// The file the config was read from, if any
+	file?: string;
+};
+
+// Look for a config file in a directory and each of its parents
+export function findConfigFile(startDirectory: string): string | undefined {
+	let directory = path.resolve(startDirectory);
+	while (true) {
+		for (const name of CONFIG_FILE_NAMES) {
+			const file = path.join(directory, name);
+			if (existsSync(file)) {
+				return file;
+			}
+		}
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			return undefined;
+		}
+		directory = parent;
+	}
+}
+
+// Load the config from an explicit path, or the nearest one above the working directory.
+// Without a config file, returns the defaults. Throws with a readable message if the file is invalid.
+export function loadConfig(explicitPath?: string): Config {
+	const file = explicitPath !== undefined ? path.resolve(explicitPath) : findConfigFile(process.cwd());
+	if (file === undefined) {
+		return { ...ConfigSchema.parse({}), directories: [] };
+	}
+
+	let json: unknown;
+	try {
+		json = JSON.parse(readFileSync(file, 'utf-8'));
+	} catch (error) {
+		throw new Error(`Could not read config file ${file}: ${error instanceof Error ? error.message : error}`);
+	}
+
+	const parsed = ConfigSchema.safeParse(json);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(issue =>
+			`  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+		throw new Error(`Invalid config file ${file}:\n${issues.join('\n')}`);
+	}
+
+	const baseDirectory = path.dirname(file);
+	const directories = parsed.data.directories.map(entry => {
+		const { path: dir, alias, readOnly } = typeof entry === 'string' ? { path: entry, readOnly: false } : entry;
+		return { path: path.normalize(path.resolve(baseDirectory, dir)), alias, readOnly };
+	});
+
+	const aliases = directories.map(dir => dir.alias).filter(Boolean);
+	const duplicate = aliases.find((alias, index) => aliases.indexOf(alias) !== index);
+	if (duplicate) {
+		throw new Error(`Invalid config file ${file}:\n  - directories: alias "${duplicate}" is used more than once`);
+	}
+
+	return { ...parsed.data, directories, file };
+}
+
+// Check that the tools a config enables exist in this server
+export function checkConfiguredTools(tools: string[] | undefined, available: string[], file?: string): void {
+	const unknown = (tools ?? []).filter(tool => !available.includes(tool));
+	if (unknown.length > 0) {
+		throw new Error(
+			`Invalid config file ${file}:\n  - unknown tools: ${unknown.join(', ')} (available: ${available.join(', ')})`
+		);
+	}
+}
+
+// Replace a leading @alias with the directory it names
+export function resolveAlias(requestedPath: string, directories: DirectoryConfig[]): string {
+	const match = requestedPath.match(/^@([\w.-]+)(?:[\\/](.*))?$/s);
+	if (!match) {
+		return requestedPath;
+	}
+	const directory = directories.find(dir => dir.alias === match[1]);
+	// Not an alias; paths can start with @ too, as in node_modules/@types
+	if (!directory) {
+		return requestedPath;
+	}
+	return match[2] ? path.join(directory.path, match[2]) : directory.path;
+}
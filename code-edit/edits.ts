@@ -0,0 +1,277 @@
+import { createTwoFilesPatch } from 'diff';
+
+// Applies a list of search-and-replace edits to file content. Edits are applied in order,
+// each to the result of the ones before it, and any edit that fails aborts the whole list,
+// so callers can write the result only when every edit succeeded.
+
+export interface TextEdit {
+	oldText: string;
+	newText: string;
+	// Replace every match instead of requiring a single one
+	replaceAll?: boolean;
+	// Which match to replace (1-based) when oldText appears more than once
+	occurrence?: number;
+}
+
+export interface EditOptions {
+	// When oldText isn't found exactly, match whole lines ignoring their leading and trailing
+	// whitespace, and re-indent newText to the matched lines
+	ignoreWhitespace?: boolean;
+}
+
+// A region of the content to replace, and what to replace it with
+interface Match {
+	start: number;
+	end: number;
+	replacement: string;
+}
+
+// Columns a tab advances to when comparing indentation
+const TAB_WIDTH = 4;
+
+// Candidates less similar than this aren't worth showing when nothing matches
+const MIN_SIMILARITY = 0.5;
+
+// Offsets at which each line starts
+function lineStarts(content: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < content.length; i++) {
+		if (content.charCodeAt(i) === 10) {
+			starts.push(i + 1);
+		}
+	}
+	return starts;
+}
+
+// 1-based line number of an offset
+function lineAt(starts: number[], offset: number): number {
+	let low = 0;
+	let high = starts.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (starts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return low + 1;
+}
+
+// The non-overlapping exact matches of oldText
+function findExactMatches(content: string, edit: TextEdit): Match[] {
+	const matches: Match[] = [];
+	let index = content.indexOf(edit.oldText);
+	while (index !== -1) {
+		matches.push({ start: index, end: index + edit.oldText.length, replacement: edit.newText });
+		index = content.indexOf(edit.oldText, index + edit.oldText.length);
+	}
+	return matches;
+}
+
+// The lines of a search or replacement text, without the blank lines around it
+function textLines(text: string): string[] {
+	const lines = text.split('\n');
+	while (lines.length > 0 && lines[0].trim() === '') {
+		lines.shift();
+	}
+	while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+function indentOf(line: string): string {
+	return line.match(/^[ \t]*/)![0];
+}
+
+function indentColumns(indent: string): number {
+	let columns = 0;
+	for (const char of indent) {
+		columns = char === '\t' ? columns + TAB_WIDTH - (columns % TAB_WIDTH) : columns + 1;
+	}
+	return columns;
+}
+
+// The smallest step between the indentation levels of some lines, in columns
+function indentStep(lines: string[]): number | undefined {
+	const levels = [...new Set(lines.filter(line => line.trim() !== '').map(line => indentColumns(indentOf(line))))]
+		.sort((a, b) => a - b);
+	let step: number | undefined;
+	for (let i = 1; i < levels.length; i++) {
+		step = Math.min(step ?? Infinity, levels[i] - levels[i - 1]);
+	}
+	return step;
+}
+
+// Re-indent the replacement lines from the indentation oldText used to the indentation of the
+// lines it matched: the first line lines up with the match, nesting is scaled from the model's
+// indent step to the file's, and tabs are used if the file uses them
+function reindent(newLines: string[], oldLines: string[], fileLines: string[]): string[] {
+	const oldBase = indentColumns(indentOf(oldLines[0]));
+	const fileBase = indentColumns(indentOf(fileLines[0]));
+	const oldStep = indentStep([...oldLines, ...newLines]);
+	const fileStep = indentStep(fileLines);
+	const scale = oldStep && fileStep ? fileStep / oldStep : 1;
+	const useTabs = fileLines.some(line => indentOf(line).includes('\t'));
+
+	return newLines.map(line => {
+		if (line.trim() === '') {
+			return '';
+		}
+		const columns = Math.max(0, fileBase + Math.round((indentColumns(indentOf(line)) - oldBase) * scale));
+		const indent = useTabs
+			? '\t'.repeat(Math.floor(columns / TAB_WIDTH)) + ' '.repeat(columns % TAB_WIDTH)
+			: ' '.repeat(columns);
+		return indent + line.trimStart();
+	});
+}
+
+// Whole-line matches of oldText, comparing lines without their leading and trailing whitespace
+function findWhitespaceMatches(content: string, edit: TextEdit): Match[] {
+	const oldLines = textLines(edit.oldText);
+	if (oldLines.length === 0) {
+		return [];
+	}
+	const lines = content.split('\n');
+	const starts = lineStarts(content);
+	const trimmed = lines.map(line => line.trim());
+	const oldTrimmed = oldLines.map(line => line.trim());
+	const newLines = textLines(edit.newText);
+
+	const matches: Match[] = [];
+	for (let i = 0; i + oldLines.length <= lines.length; i++) {
+		if (!oldTrimmed.every((line, j) => trimmed[i + j] === line)) {
+			continue;
+		}
+		const last = i + oldLines.length - 1;
+		const fileLines = lines.slice(i, last + 1);
+		// Removing the lines entirely also removes the line break after them
+		const end = newLines.length === 0 && last + 1 < starts.length
+			? starts[last + 1]
+			: starts[last] + lines[last].length;
+		matches.push({
+			start: starts[i],
+			end,
+			replacement: reindent(newLines, oldLines, fileLines).join('\n')
+		});
+		i = last;
+	}
+	return matches;
+}
+
+// Similarity of two strings from their shared character pairs, from 0 to 1
+function similarity(a: string, b: string): number {
+	if (a === b) {
+		return 1;
+	}
+	if (a.length < 2 || b.length < 2) {
+		return 0;
+	}
+	const pairs = new Map<string, number>();
+	for (let i = 0; i < a.length - 1; i++) {
+		const pair = a.slice(i, i + 2);
+		pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+	}
+	let shared = 0;
+	for (let i = 0; i < b.length - 1; i++) {
+		const pair = b.slice(i, i + 2);
+		const count = pairs.get(pair) ?? 0;
+		if (count > 0) {
+			pairs.set(pair, count - 1);
+			shared++;
+		}
+	}
+	return (2 * shared) / (a.length + b.length - 2);
+}
+
+// Explain a failed search: show the lines most similar to oldText, with a diff against it
+function describeNearestMatch(content: string, edit: TextEdit, options: EditOptions): string {
+	const oldLines = textLines(edit.oldText);
+	const lines = content.split('\n');
+	const windowSize = Math.min(Math.max(oldLines.length, 1), lines.length);
+	const trimmed = lines.map(line => line.trim());
+	const oldTrimmed = oldLines.map(line => line.trim());
+
+	let best = { line: 0, score: 0 };
+	for (let i = 0; i + windowSize <= lines.length; i++) {
+		let score = 0;
+		for (let j = 0; j < windowSize; j++) {
+			score += similarity(trimmed[i + j], oldTrimmed[j] ?? '');
+		}
+		score /= Math.max(oldLines.length, 1);
+		if (score > best.score) {
+			best = { line: i, score };
+		}
+	}
+
+	if (best.score < MIN_SIMILARITY) {
+		return 'Could not find the text to replace, and no lines in the file are similar to it';
+	}
+
+	const candidate = lines.slice(best.line, best.line + windowSize);
+	const range = windowSize > 1 ? `lines ${best.line + 1}-${best.line + windowSize}` : `line ${best.line + 1}`;
+	const diff = createTwoFilesPatch('oldText', `file ${range}`, oldLines.join('\n') + '\n', candidate.join('\n') + '\n')
+		.split('\n')
+		.slice(1)
+		.join('\n')
+		.trimEnd();
+	const onlyWhitespace = !options.ignoreWhitespace && candidate.every((line, j) => line.trim() === oldTrimmed[j]);
+	const hint = onlyWhitespace ? '\nThey differ only in whitespace; set ignoreWhitespace to match them.' : '';
+
+	return `Could not find the text to replace. The closest match is at ${range} ` +
+		`(${Math.round(best.score * 100)}% similar):\n${diff}${hint}`;
+}
+
+function applyEdit(content: string, edit: TextEdit, options: EditOptions): string {
+	let matches = findExactMatches(content, edit);
+	if (matches.length === 0 && options.ignoreWhitespace) {
+		matches = findWhitespaceMatches(content, edit);
+	}
+	if (matches.length === 0) {
+		throw new Error(describeNearestMatch(content, edit, options));
+	}
+
+	let selected: Match[];
+	if (edit.replaceAll) {
+		selected = matches;
+	} else if (edit.occurrence !== undefined) {
+		if (edit.occurrence > matches.length) {
+			throw new Error(
+				`Occurrence ${edit.occurrence} requested, but the text to replace only appears ${matches.length} ` +
+				`time${matches.length === 1 ? '' : 's'}`
+			);
+		}
+		selected = [matches[edit.occurrence - 1]];
+	} else if (matches.length > 1) {
+		const starts = lineStarts(content);
+		const lines = matches.map(match => lineAt(starts, match.start));
+		throw new Error(
+			`The text to replace appears ${matches.length} times, at lines ${lines.join(', ')}. ` +
+			`Include more surrounding text to make it unique, or set occurrence or replaceAll`
+		);
+	} else {
+		selected = matches;
+	}
+
+	// Replace from the end so earlier offsets stay valid
+	let result = content;
+	for (const match of [...selected].reverse()) {
+		result = result.slice(0, match.start) + match.replacement + result.slice(match.end);
+	}
+	return result;
+}
+
+// Apply every edit in order, or throw naming the edit that failed
+export function applyEdits(content: string, edits: TextEdit[], options: EditOptions = {}): string {
+	let result = content;
+	edits.forEach((edit, index) => {
+		try {
+			result = applyEdit(result, edit, options);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(edits.length > 1 ? `Edit ${index + 1} of ${edits.length}: ${message}` : message);
+		}
+	});
+	return result;
+}
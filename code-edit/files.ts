@@ -0,0 +1,108 @@
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+import { chmod, readFile, realpath, rename, rm, stat, writeFile } from "fs/promises";
+
+// Reading and writing files without disturbing them: edits are made on text with LF line
+// endings and no byte order mark, then written back in the file's own format, through a
+// temporary file so a crash can't leave it half written.
+
+export interface TextFormat {
+	bom: boolean;
+	lineEnding: "\n" | "\r\n";
+	// Whether the text ends with a line break; undefined to leave it as it is
+	finalNewline?: boolean;
+}
+
+// The version of a file a change was based on
+export interface FileVersion {
+	// SHA-256 of the file's bytes on disk, in hex, as sha256sum prints it
+	hash: string;
+	// Modification time, in milliseconds since the epoch
+	mtime: number;
+}
+
+const BOM = '\uFEFF';
+
+const DEFAULT_FORMAT: TextFormat = { bom: false, lineEnding: "\n" };
+
+// The format of some file content. Files too short to show a line ending or final newline
+// take them from the fallback.
+export function detectFormat(content: string, fallback: TextFormat = DEFAULT_FORMAT): TextFormat {
+	const bom = content.startsWith(BOM);
+	const text = bom ? content.slice(1) : content;
+	const lineBreaks = text.split('\n').length - 1;
+	const crlf = text.split('\r\n').length - 1;
+	return {
+		bom,
+		// Files with mixed line endings get the most common one
+		lineEnding: lineBreaks === 0 ? fallback.lineEnding : crlf > lineBreaks - crlf ? "\r\n" : "\n",
+		finalNewline: lineBreaks === 0 ? fallback.finalNewline : text.endsWith('\n')
+	};
+}
+
+// Content as it is edited: without a byte order mark, with LF line endings
+export function toEditable(content: string): string {
+	return (content.startsWith(BOM) ? content.slice(1) : content).replace(/\r\n/g, '\n');
+}
+
+// Turn edited text back into content in the given format
+export function applyFormat(text: string, format: TextFormat): string {
+	let result = text;
+	if (format.finalNewline !== undefined && result !== '') {
+		if (format.finalNewline && !result.endsWith('\n')) {
+			result += '\n';
+		} else if (!format.finalNewline && result.endsWith('\n')) {
+			result = result.slice(0, -1);
+		}
+	}
+	if (format.lineEnding === "\r\n") {
+		result = result.replace(/\n/g, '\r\n');
+	}
+	return (format.bom ? BOM : '') + result;
+}
+
+export function hashContent(content: Buffer): string {
+	return createHash('sha256').update(content).digest('hex');
+}
+
+// The version of a file as it is on disk. The hash is of the raw bytes rather than the decoded
+// text, so it matches one computed from the file even when decoding would change it.
+export async function fileVersion(filePath: string): Promise<FileVersion> {
+	const [content, { mtimeMs }] = await Promise.all([readFile(filePath), stat(filePath)]);
+	return { hash: hashContent(content), mtime: Math.floor(mtimeMs) };
+}
+
+export function formatVersion(version: FileVersion): string {
+	return `sha256 ${version.hash}, modified ${new Date(version.mtime).toISOString()}`;
+}
+
+// Write a file by writing a temporary file next to it and renaming it over the original, so
+// readers see either the old or the new content. An existing file keeps its permissions, and
+// writing through a symlink replaces the file it points to rather than the link.
+export async function writeFileAtomic(requestedPath: string, content: string): Promise<void> {
+	let filePath = requestedPath;
+	let mode: number | undefined;
+	try {
+		filePath = await realpath(requestedPath);
+		mode = (await stat(filePath)).mode & 0o7777;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			throw error;
+		}
+	}
+
+	const temporary = path.join(
+		path.dirname(filePath),
+		`.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`
+	);
+	try {
+		await writeFile(temporary, content, { encoding: 'utf-8', flag: 'wx' });
+		if (mode !== undefined) {
+			await chmod(temporary, mode);
+		}
+		await rename(temporary, filePath);
+	} catch (error) {
+		await rm(temporary, { force: true });
+		throw error;
+	}
+}
@@ -0,0 +1,246 @@
+import * as path from "path";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+
+// A journal of the file changes made in one session, so they can be undone and redone. Each
+// entry keeps the content of every file it touched before and after the change. The oldest
+// entries are dropped once the stored content exceeds the size limit. The journal is kept in
+// memory, and also in a file when one is given, so it survives a restart. The file is
+// appended to as changes are made, and rewritten with only the live entries once the
+// dropped ones take up most of it.
+
+export interface FileChange {
+	// Absolute path
+	path: string;
+	// Content before and after the change; null when the file didn't exist
+	before: string | null;
+	after: string | null;
+}
+
+export interface HistoryEntry {
+	id: number;
+	tool: string;
+	// Milliseconds since the epoch
+	timestamp: number;
+	changes: FileChange[];
+	// Set while the entry is undone: increases with each undo, so the latest undo is redone first
+	undoneAt?: number;
+}
+
+// The net effect of undoing or redoing some entries on one file: its content is expected to be
+// `expected`, and becomes `content`
+export interface Restore {
+	path: string;
+	expected: string | null;
+	content: string | null;
+}
+
+// One line of the history file, after the version line
+type JournalLine =
+	| { type: "record"; entry: HistoryEntry }
+	| { type: "undo"; ids: number[] }
+	| { type: "redo"; ids: number[] };
+
+const HISTORY_VERSION = 2;
+
+// The file is rewritten once it is this much larger than the entries it still holds
+const COMPACT_SLACK = 1024 * 1024;
+
+// Stored content in bytes, as the size limit is given
+function entrySize(entry: HistoryEntry): number {
+	return entry.changes.reduce(
+		(size, change) => size + Buffer.byteLength(change.before ?? '') + Buffer.byteLength(change.after ?? ''),
+		0
+	);
+}
+
+export class EditHistory {
+	private entries: HistoryEntry[] = [];
+	private nextId = 1;
+	private undoCount = 0;
+	// Bytes in the history file, once it has been read or written
+	private fileSize?: number;
+
+	constructor(readonly maxSize: number, readonly file?: string) {}
+
+	async load(): Promise<void> {
+		if (!this.file) {
+			return;
+		}
+		let text: string;
+		try {
+			text = await readFile(this.file, 'utf-8');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`Ignoring unreadable edit history at ${this.file}:`, error);
+			}
+			return;
+		}
+
+		const [header, ...lines] = text.split('\n');
+		let version: unknown;
+		try {
+			version = JSON.parse(header).version;
+		} catch {
+			// Handled below
+		}
+		if (version !== HISTORY_VERSION) {
+			console.error(`Ignoring edit history at ${this.file}, which is not in the current format`);
+			return;
+		}
+
+		for (const line of lines) {
+			if (line.trim() === '') {
+				continue;
+			}
+			// A line cut short by a crash is skipped, along with anything it referred to
+			try {
+				this.apply(JSON.parse(line));
+			} catch (error) {
+				console.error(`Skipping an unreadable line in the edit history at ${this.file}:`, error);
+			}
+		}
+		this.fileSize = Buffer.byteLength(text);
+	}
+
+	private apply(line: JournalLine): void {
+		if (line.type === "record") {
+			this.add(line.entry);
+		} else if (line.type === "undo") {
+			this.setUndone(line.ids, true);
+		} else {
+			this.setUndone(line.ids, false);
+		}
+	}
+
+	// Undone entries can no longer be redone after a new one, as in an editor
+	private add(entry: HistoryEntry): void {
+		this.nextId = Math.max(this.nextId, entry.id + 1);
+		this.entries = this.entries.filter(existing => existing.undoneAt === undefined);
+		this.entries.push(entry);
+
+		let size = this.entries.reduce((total, existing) => total + entrySize(existing), 0);
+		while (size > this.maxSize && this.entries.length > 1) {
+			size -= entrySize(this.entries.shift()!);
+		}
+	}
+
+	private setUndone(ids: number[], undone: boolean): void {
+		for (const id of ids) {
+			const entry = this.find(id);
+			if (!entry) {
+				continue;
+			}
+			if (undone) {
+				entry.undoneAt = ++this.undoCount;
+			} else {
+				delete entry.undoneAt;
+			}
+		}
+	}
+
+	// Add a line to the history file, or rewrite the file when it is new or mostly dropped
+	// entries. Failures are logged rather than failing the change that was already made.
+	private async save(line: JournalLine): Promise<void> {
+		if (!this.file) {
+			return;
+		}
+		try {
+			const data = JSON.stringify(line) + '\n';
+			const liveSize = this.entries.reduce((total, entry) => total + entrySize(entry), 0);
+			if (this.fileSize === undefined || this.fileSize + Buffer.byteLength(data) > 2 * liveSize + COMPACT_SLACK) {
+				await this.compact();
+			} else {
+				await appendFile(this.file, data, 'utf-8');
+				this.fileSize += Buffer.byteLength(data);
+			}
+		} catch (error) {
+			console.error(`Error writing edit history at ${this.file}:`, error);
+		}
+	}
+
+	// Write the live entries to the history file through a temporary file, so a crash can't
+	// leave it half written
+	private async compact(): Promise<void> {
+		const undone = this.entries
+			.filter(entry => entry.undoneAt !== undefined)
+			.sort((a, b) => a.undoneAt! - b.undoneAt!);
+		const lines: (JournalLine | { version: number })[] = [
+			{ version: HISTORY_VERSION },
+			...this.entries.map(({ undoneAt, ...entry }): JournalLine => ({ type: "record", entry })),
+			...(undone.length > 0 ? [{ type: "undo", ids: undone.map(entry => entry.id) } as JournalLine] : [])
+		];
+		const data = lines.map(line => JSON.stringify(line) + '\n').join('');
+
+		await mkdir(path.dirname(this.file!), { recursive: true });
+		const temporary = `${this.file}.${process.pid}.tmp`;
+		await writeFile(temporary, data, 'utf-8');
+		await rename(temporary, this.file!);
+		this.fileSize = Buffer.byteLength(data);
+	}
+
+	// Add an operation. Files it didn't actually change are left out.
+	async record(tool: string, changes: FileChange[]): Promise<HistoryEntry | undefined> {
+		const changed = changes.filter(change => change.before !== change.after);
+		if (changed.length === 0) {
+			return undefined;
+		}
+		const entry: HistoryEntry = { id: this.nextId, tool, timestamp: Date.now(), changes: changed };
+		this.add(entry);
+		await this.save({ type: "record", entry });
+		return entry;
+	}
+
+	// Entries, newest first
+	recent(limit: number): HistoryEntry[] {
+		return this.entries.slice(-limit).reverse();
+	}
+
+	find(id: number): HistoryEntry | undefined {
+		return this.entries.find(entry => entry.id === id);
+	}
+
+	// The latest entries that aren't undone, newest first
+	undoable(count: number): HistoryEntry[] {
+		return this.entries.filter(entry => entry.undoneAt === undefined).slice(-count).reverse();
+	}
+
+	// The undone entries, most recently undone first
+	redoable(count: number): HistoryEntry[] {
+		return this.entries
+			.filter(entry => entry.undoneAt !== undefined)
+			.sort((a, b) => b.undoneAt! - a.undoneAt!)
+			.slice(0, count);
+	}
+
+	async markUndone(entries: HistoryEntry[]): Promise<void> {
+		const ids = entries.map(entry => entry.id);
+		this.setUndone(ids, true);
+		await this.save({ type: "undo", ids });
+	}
+
+	async markRedone(entries: HistoryEntry[]): Promise<void> {
+		const ids = entries.map(entry => entry.id);
+		this.setUndone(ids, false);
+		await this.save({ type: "redo", ids });
+	}
+}
+
+// The combined effect of undoing or redoing entries, per file. Undoing expects each file to
+// be as the newest entry left it and restores it to before the oldest one; redoing is the reverse.
+export function netRestores(entries: HistoryEntry[], direction: "undo" | "redo"): Restore[] {
+	const ordered = [...entries].sort((a, b) => a.id - b.id);
+	const first = new Map<string, FileChange>();
+	const last = new Map<string, FileChange>();
+	for (const entry of ordered) {
+		for (const change of entry.changes) {
+			if (!first.has(change.path)) {
+				first.set(change.path, change);
+			}
+			last.set(change.path, change);
+		}
+	}
+	return [...first.keys()].map(filePath => direction === "undo"
+		? { path: filePath, expected: last.get(filePath)!.after, content: first.get(filePath)!.before }
+		: { path: filePath, expected: first.get(filePath)!.before, content: last.get(filePath)!.after }
+	);
+}
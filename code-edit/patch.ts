@@ -0,0 +1,267 @@
+import { parsePatch } from 'diff';
+
+// Applies unified diffs, as produced by `diff -u`, `git diff` or createUnifiedDiff. Hunks are
+// located the way GNU patch does it: at the line the hunk header gives, else at the nearest
+// offset where its lines match, and with fuzz, ignoring up to that many context lines at
+// either end of the hunk.
+
+export type FileOperation = "create" | "delete" | "modify" | "rename";
+
+const GIT_DIFF_LINE = 'diff --git ';
+
+export interface FilePatch {
+	// Paths as written in the patch, without git's a/ and b/ prefixes; undefined for /dev/null
+	oldPath?: string;
+	newPath?: string;
+	operation: FileOperation;
+	hunks: Hunk[];
+}
+
+interface Hunk {
+	oldStart: number;
+	// Lines starting with ' ', '-' or '+'
+	lines: string[];
+	// Whether the old or new side ends without a line break ("\ No newline at end of file")
+	oldNoNewline: boolean;
+	newNoNewline: boolean;
+}
+
+export interface HunkResult {
+	applied: boolean;
+	// Lines between where the hunk header placed it and where it was applied
+	offset?: number;
+	// Context lines that were ignored at each end to make it apply
+	fuzz?: number;
+	// 1-based line the hunk was applied at, in the file before patching
+	line?: number;
+	reason?: string;
+}
+
+export interface PatchedFile {
+	// The new content when every hunk applied; undefined for a deleted file
+	content?: string;
+	hunks: HunkResult[];
+	// Why the file can't be patched, when it isn't a rejected hunk
+	error?: string;
+}
+
+// Strip git's a/ and b/ prefixes, and any timestamp after a tab
+function cleanPath(fileName: string | undefined, prefix: string): string | undefined {
+	const name = fileName?.split('\t')[0].trim();
+	if (!name || name === '/dev/null') {
+		return undefined;
+	}
+	return name.startsWith(prefix) ? name.slice(prefix.length) : name;
+}
+
+// The path on a "diff --git a/path b/path" line, when both sides name the same file
+function gitLinePath(line: string): string | undefined {
+	const names = line.slice(GIT_DIFF_LINE.length);
+	const half = (names.length - 1) / 2;
+	const oldName = names.slice(0, half);
+	const newName = names.slice(half + 1);
+	return oldName.startsWith('a/') && newName.startsWith('b/') && oldName.slice(2) === newName.slice(2)
+		? oldName.slice(2)
+		: undefined;
+}
+
+// Parse one file's section of a git patch. Renames, and new or deleted empty files, have no
+// ---/+++ lines or hunks, only git's extended headers; changes that can't be applied to the
+// files' text, such as mode changes and binary patches, are refused.
+function parseGitSection(section: string): FilePatch[] {
+	const lines = section.split('\n');
+	const headerEnd = lines.findIndex(line => /^(---|\+\+\+|@@) /.test(line));
+	const header = headerEnd === -1 ? lines : lines.slice(0, headerEnd);
+	const value = (prefix: string) => header.find(line => line.startsWith(prefix))?.slice(prefix.length).trim();
+	const name = value('rename from ') ?? gitLinePath(lines[0]) ?? lines[0].slice(GIT_DIFF_LINE.length);
+
+	if (header.some(line => line.startsWith('GIT binary patch') || line.startsWith('Binary files '))) {
+		throw new Error(`${name}: binary patches can't be applied`);
+	}
+	if (value('copy from ') !== undefined) {
+		throw new Error(`${name}: copies can't be applied; use copy_file`);
+	}
+	if (value('old mode ') !== undefined || value('new mode ') !== undefined) {
+		throw new Error(`${name}: mode changes can't be applied`);
+	}
+	if (headerEnd !== -1) {
+		return parseFilePatches(section);
+	}
+
+	const renameFrom = value('rename from ');
+	const renameTo = value('rename to ');
+	if (renameFrom !== undefined && renameTo !== undefined) {
+		return [{ oldPath: renameFrom, newPath: renameTo, operation: "rename", hunks: [] }];
+	}
+	const gitPath = gitLinePath(lines[0]);
+	if (gitPath === undefined) {
+		throw new Error(`Could not read the file name from: ${lines[0]}`);
+	}
+	if (value('new file mode ') !== undefined) {
+		return [{ newPath: gitPath, operation: "create", hunks: [] }];
+	}
+	if (value('deleted file mode ') !== undefined) {
+		return [{ oldPath: gitPath, operation: "delete", hunks: [] }];
+	}
+	throw new Error(`${gitPath}: the patch has no changes for this file`);
+}
+
+// Parse a patch that may cover several files. Throws if it isn't a unified diff, or has
+// changes that can't be applied.
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+	const normalized = patch.replace(/\r\n/g, '\n');
+	// Git patches are split into files first, since sections without hunks have no ---/+++
+	// lines and would otherwise be taken as part of the next file's header
+	const sections = normalized.split(/^(?=diff --git )/m).filter(section => section.startsWith(GIT_DIFF_LINE));
+	const files = sections.length > 0 ? sections.flatMap(parseGitSection) : parseFilePatches(normalized);
+	if (files.length === 0) {
+		throw new Error('The patch contains no file changes');
+	}
+	return files;
+}
+
+function parseFilePatches(patch: string): FilePatch[] {
+	const parsed = parsePatch(patch);
+	const files: FilePatch[] = [];
+	for (const file of parsed) {
+		if (file.oldFileName === undefined && file.newFileName === undefined) {
+			continue;
+		}
+		// Only strip the prefixes when both sides use them, as git does
+		const gitStyle = (file.oldFileName === '/dev/null' || file.oldFileName?.startsWith('a/')) &&
+			(file.newFileName === '/dev/null' || file.newFileName?.startsWith('b/'));
+		const oldPath = cleanPath(file.oldFileName, gitStyle ? 'a/' : '');
+		const newPath = cleanPath(file.newFileName, gitStyle ? 'b/' : '');
+		if (!oldPath && !newPath) {
+			throw new Error('A file in the patch has /dev/null as both its old and new name');
+		}
+
+		const operation: FileOperation = !oldPath ? "create" : !newPath ? "delete" : oldPath !== newPath ? "rename" : "modify";
+		const hunks = file.hunks.map((hunk: { oldStart: number; lines: string[] }) => {
+			const lines: string[] = [];
+			let oldNoNewline = false;
+			let newNoNewline = false;
+			for (const line of hunk.lines) {
+				if (line.startsWith('\\')) {
+					const previous = lines[lines.length - 1]?.[0];
+					oldNoNewline ||= previous === '-' || previous === ' ';
+					newNoNewline ||= previous === '+' || previous === ' ';
+				} else {
+					lines.push(line);
+				}
+			}
+			return { oldStart: hunk.oldStart, lines, oldNoNewline, newNoNewline };
+		});
+		files.push({ oldPath, newPath, operation, hunks });
+	}
+	return files;
+}
+
+function splitLines(content: string): { lines: string[]; finalNewline: boolean } {
+	if (content === '') {
+		return { lines: [], finalNewline: false };
+	}
+	const lines = content.split('\n');
+	const finalNewline = lines[lines.length - 1] === '';
+	if (finalNewline) {
+		lines.pop();
+	}
+	return { lines, finalNewline };
+}
+
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+	if (position < 0 || position + expected.length > lines.length) {
+		return false;
+	}
+	return expected.every((line, i) => lines[position + i] === line);
+}
+
+// Positions to try, nearest to the expected one first, never before `minimum`
+function* candidatePositions(expected: number, minimum: number, maximum: number): Generator<number> {
+	for (let distance = 0; expected - distance >= minimum || expected + distance <= maximum; distance++) {
+		if (expected + distance >= minimum && expected + distance <= maximum) {
+			yield expected + distance;
+		}
+		if (distance > 0 && expected - distance >= minimum && expected - distance <= maximum) {
+			yield expected - distance;
+		}
+	}
+}
+
+// Apply a file's hunks to its current content (empty for a new file). Hunks that can't be
+// placed are reported as rejected; the content is only returned when every hunk applied.
+export function applyFilePatch(content: string, file: FilePatch, maxFuzz: number): PatchedFile {
+	const { lines, finalNewline } = splitLines(content.replace(/\r\n/g, '\n'));
+	const output: string[] = [];
+	const results: HunkResult[] = [];
+	let newFinalNewline = finalNewline || file.operation === "create";
+	// Next unconsumed line, and how far the previous hunk was moved from its header
+	let position = 0;
+	let drift = 0;
+
+	for (const hunk of file.hunks) {
+		const leadingContext = Math.max(0, hunk.lines.findIndex(line => line[0] !== ' '));
+		const trailingContext = Math.max(0, [...hunk.lines].reverse().findIndex(line => line[0] !== ' '));
+
+		let placed: { start: number; dropStart: number; fuzz: number; trimmed: string[] } | undefined;
+		for (let fuzz = 0; fuzz <= maxFuzz && !placed; fuzz++) {
+			// More fuzz changes nothing once there is no context left to ignore
+			if (fuzz > Math.max(leadingContext, trailingContext) && fuzz > 0) {
+				break;
+			}
+			const dropStart = Math.min(fuzz, leadingContext);
+			const dropEnd = Math.min(fuzz, trailingContext);
+			const trimmed = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+			const expected = trimmed.filter(line => line[0] !== '+').map(line => line.slice(1));
+			const target = hunk.oldStart - 1 + dropStart + drift;
+			for (const start of candidatePositions(target, position, lines.length - expected.length)) {
+				if (matchesAt(lines, expected, start)) {
+					placed = { start, dropStart, fuzz, trimmed };
+					break;
+				}
+			}
+		}
+
+		if (!placed) {
+			results.push({
+				applied: false,
+				reason: `its lines were not found near line ${hunk.oldStart}` +
+					(maxFuzz > 0 ? `, even ignoring up to ${maxFuzz} context lines at each end` : '')
+			});
+			continue;
+		}
+
+		output.push(...lines.slice(position, placed.start));
+		output.push(...placed.trimmed.filter(line => line[0] !== '-').map(line => line.slice(1)));
+		position = placed.start + placed.trimmed.filter(line => line[0] !== '+').length;
+
+		// Where the whole hunk, including any context ignored by fuzz, would start
+		const at = placed.start - placed.dropStart;
+		drift = at - (hunk.oldStart - 1);
+		results.push({ applied: true, offset: drift, fuzz: placed.fuzz, line: at + 1 });
+
+		// The end-of-file markers only matter for the hunk that reaches the end
+		if (position === lines.length) {
+			if (hunk.newNoNewline) {
+				newFinalNewline = false;
+			} else if (hunk.oldNoNewline) {
+				newFinalNewline = true;
+			}
+		}
+	}
+
+	if (results.some(result => !result.applied)) {
+		return { hunks: results };
+	}
+
+	output.push(...lines.slice(position));
+	if (file.operation === "delete") {
+		return output.length > 0
+			? { hunks: results, error: `the file has ${output.length} lines the patch doesn't remove` }
+			: { hunks: results };
+	}
+	return {
+		content: output.length > 0 ? output.join('\n') + (newFinalNewline ? '\n' : '') : '',
+		hunks: results
+	};
+}
@@ -5,72 +5,336 @@ import {
 	CallToolRequestSchema,
 	ListToolsRequestSchema,
 	ToolSchema,
+	type CallToolRequest,
+	type CallToolResult,
+	type ListToolsResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import * as path from "path";
-import { readFile, writeFile } from "fs/promises";
+import { cp, lstat, mkdir, readdir, readFile, rename, rm } from "fs/promises";
+import type { Stats } from "fs";
 import { createPatch } from 'diff';
+import { loadConfig, checkConfiguredTools, type Config, type DirectoryConfig } from "./config.js";
+import { isWithin, Sandbox } from "./sandbox.js";
+import { applyEdits } from "./edits.js";
+import { applyFilePatch, parseUnifiedDiff, type FilePatch, type HunkResult } from "./patch.js";
+import { EditHistory, netRestores, type FileChange, type HistoryEntry } from "./history.js";
+import { applyFormat, detectFormat, fileVersion, formatVersion, toEditable, writeFileAtomic } from "./files.js";
+import { followClientRoots, type RootsMode } from "./roots.js";
+import { parseTransportOptions, serveHttp, TRANSPORT_FLAGS, type TransportOptions } from "./http.js";
 
 // Parse command line arguments
 interface CliOptions {
-	allowedDirectories: string[];
+	directories: DirectoryConfig[];
+	denyPatterns: string[];
+	rootsMode: RootsMode;
+	transport: TransportOptions;
+	historyFile?: string;
+	historySize: number;
+	config: Config;
+}
+
+const DEFAULT_HTTP_PORT = 3101;
+
+// How much file content the edit history keeps before dropping its oldest entries
+const DEFAULT_HISTORY_SIZE = 10 * 1024 * 1024;
+
+// Parse a size such as 500000, 512k or 2m into bytes
+function parseSize(value: string): number {
+	const match = value.trim().match(/^(\d+)([km]?)b?$/i);
+	if (!match) {
+		throw new Error(`Invalid size: ${value} (expected bytes, or a number with a k or m suffix)`);
+	}
+	const multiplier = { '': 1, k: 1024, m: 1024 * 1024 }[match[2].toLowerCase() as '' | 'k' | 'm'];
+	return Number(match[1]) * multiplier;
 }
 
 function parseCliArgs(): CliOptions {
 	const args = process.argv.slice(2);
+	const configFlag = "--config=";
+	const denyFlag = "--deny=";
+	const rootsFlag = "--roots=";
+	const historyFileFlag = "--history-file=";
+	const historySizeFlag = "--history-size=";
+	const flags = [configFlag, denyFlag, rootsFlag, historyFileFlag, historySizeFlag, ...TRANSPORT_FLAGS];
+
+	// Load the config file; directories on the command line replace the ones in it
+	const configArg = args.find(arg => arg.startsWith(configFlag));
+	let config: Config;
+	try {
+		config = loadConfig(configArg?.slice(configFlag.length));
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+	// Relative paths in the config are relative to the config file
+	const configDir = config.file ? path.dirname(config.file) : process.cwd();
+
+	// Deny patterns can be repeated, and add to the ones in the config
+	const denyPatterns = [
+		...config.deny,
+		...args.filter(arg => arg.startsWith(denyFlag)).map(arg => arg.slice(denyFlag.length))
+	];
 
-	if (args.length === 0) {
-		console.error("Usage: code-edit <allowed-directory> [additional-directories...]");
+	// How client roots change the allowed directories
+	const rootsArg = args.find(arg => arg.startsWith(rootsFlag));
+	const rootsMode = rootsArg ? rootsArg.slice(rootsFlag.length) : config.roots;
+	if (!["off", "intersect", "replace"].includes(rootsMode)) {
+		console.error(`Invalid roots mode: ${rootsMode} (expected off, intersect or replace)`);
+		process.exit(1);
+	}
+
+	// Each HTTP client could have different roots, but the allowed directories are shared
+	let transport: TransportOptions;
+	try {
+		transport = parseTransportOptions(args, DEFAULT_HTTP_PORT);
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+	if (transport.transport === "http" && rootsMode !== "off") {
+		console.error("Client roots can only be used with --transport=stdio");
+		process.exit(1);
+	}
+
+	// Where the edit history is saved, if anywhere, and how much it keeps
+	const historyFileArg = args.find(arg => arg.startsWith(historyFileFlag));
+	const historyFile = historyFileArg
+		? path.resolve(historyFileArg.slice(historyFileFlag.length))
+		: config.codeEdit.historyFile && path.resolve(configDir, config.codeEdit.historyFile);
+	// Each HTTP session keeps its own history in memory, so there is no one history to save
+	if (transport.transport === "http" && historyFile) {
+		console.error("The edit history file can only be used with --transport=stdio");
+		process.exit(1);
+	}
+	const historySizeArg = args.find(arg => arg.startsWith(historySizeFlag));
+	const configuredHistorySize = config.codeEdit.historySize;
+	let historySize: number;
+	try {
+		historySize = historySizeArg
+			? parseSize(historySizeArg.slice(historySizeFlag.length))
+			: typeof configuredHistorySize === 'string'
+				? parseSize(configuredHistorySize)
+				: configuredHistorySize ?? DEFAULT_HISTORY_SIZE;
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+
+	const directoryArgs = args.filter(arg => !flags.some(flag => arg.startsWith(flag)));
+	const directories = directoryArgs.length > 0
+		? directoryArgs.map(dir => ({ path: path.normalize(path.resolve(dir)), readOnly: false }))
+		: config.directories;
+
+	// With roots replacing them, the directories come from the client
+	if (directories.length === 0 && rootsMode !== "replace") {
+		console.error("Usage: code-edit [--config=<file>] [--deny=<pattern>...] [--roots=off|intersect|replace] [--history-file=<file>] [--history-size=<size>] [--transport=stdio|http] [--host=<host>] [--port=<port>] [--auth-token=<token>] [allowed-directory...]");
+		console.error("\nDirectories can also be listed in a cogniteration.config.json file, or taken from the client with --roots=replace.");
 		process.exit(1);
 	}
 
 	return {
-		allowedDirectories: args
+		directories,
+		denyPatterns,
+		rootsMode: rootsMode as RootsMode,
+		transport,
+		historyFile,
+		historySize,
+		config
 	};
 }
 
-const { allowedDirectories } = parseCliArgs();
+const {
+	directories: configuredDirectories,
+	denyPatterns,
+	rootsMode,
+	transport: transportOptions,
+	historyFile,
+	historySize,
+	config
+} = parseCliArgs();
 
-// Store allowed directories in normalized form 
-const normalizedDirectories = allowedDirectories.map(dir =>
-	path.normalize(path.resolve(dir))
-);
+const sandbox = new Sandbox(configuredDirectories, denyPatterns);
 
 // Schema definitions
+const ExpectedVersionFields = {
+	expectedHash: z.string().regex(/^[0-9a-f]{64}$/i, 'Expected a SHA-256 hash in hex').optional().describe(
+		'SHA-256 of the file\'s bytes on disk (as sha256sum prints it) that the change is based on; ' +
+		'the change is refused if the file differs'
+	),
+	expectedMtime: z.union([z.number(), z.string().datetime({ offset: true })]).optional().describe(
+		'Modification time of the file the change is based on, as an ISO date or milliseconds since the epoch; ' +
+		'the change is refused if the file was modified at another time'
+	)
+};
+
 const WriteFileSchema = z.object({
 	path: z.string(),
-	content: z.string()
+	content: z.string(),
+	...ExpectedVersionFields
 });
 
+const EditSchema = z.object({
+	oldText: z.string().min(1).describe('Text to search for - must match exactly'),
+	newText: z.string().describe('Text to replace with'),
+	replaceAll: z.boolean().default(false).describe('Replace every match instead of requiring oldText to be unique'),
+	occurrence: z.number().int().positive().optional().describe(
+		'Which match to replace (1-based) when oldText appears more than once'
+	)
+}).refine(
+	edit => !(edit.replaceAll && edit.occurrence !== undefined),
+	{ message: 'Use either replaceAll or occurrence, not both' }
+);
+
 const EditFileSchema = z.object({
 	path: z.string(),
-	oldText: z.string().describe('Text to search for - must match exactly'),
-	newText: z.string().describe('Text to replace with')
+	edits: z.array(EditSchema).min(1).describe('Edits to apply in order; if any fails, none are applied'),
+	dryRun: z.boolean().default(false).describe('Return the diff without writing the file'),
+	ignoreWhitespace: z.boolean().default(false).describe(
+		'If oldText is not found exactly, match whole lines ignoring leading and trailing whitespace, ' +
+		'and re-indent newText to match the file'
+	),
+	...ExpectedVersionFields
+});
+
+const ApplyPatchSchema = z.object({
+	patch: z.string().describe('Unified diff, as produced by diff -u or git diff; may cover several files'),
+	directory: z.string().optional().describe(
+		'Directory the paths in the patch are relative to (defaults to the allowed directory, if there is only one)'
+	),
+	fuzz: z.number().int().min(0).max(3).default(2).describe(
+		'How many context lines at each end of a hunk may be ignored to make it apply'
+	),
+	dryRun: z.boolean().default(false).describe('Check that the patch applies without writing any files')
+});
+
+const MoveFileSchema = z.object({
+	source: z.string(),
+	destination: z.string().describe('The new path, including the file or directory name'),
+	overwrite: z.boolean().default(false).describe('Replace a file that already exists at the destination')
+});
+
+const CopyFileSchema = z.object({
+	source: z.string(),
+	destination: z.string().describe('Path of the copy, including the file or directory name'),
+	overwrite: z.boolean().default(false).describe('Replace a file that already exists at the destination')
+});
+
+const DeleteFileSchema = z.object({
+	path: z.string(),
+	confirm: z.literal(true, { errorMap: () => ({ message: 'Set confirm to true to delete' }) }).describe(
+		'Must be true, to confirm the deletion'
+	),
+	recursive: z.boolean().default(false).describe(
+		'Required to delete a directory that is not empty, along with everything in it'
+	)
+});
+
+const CreateDirectorySchema = z.object({
+	path: z.string().describe('Directory to create, along with any missing parent directories')
+});
+
+const ListHistorySchema = z.object({
+	limit: z.number().int().min(1).max(100).default(10).describe('How many of the latest operations to list'),
+	diffs: z.boolean().default(true).describe('Include the diff of each operation')
+});
+
+const UndoSchema = z.object({
+	count: z.number().int().min(1).optional().describe('How many of the latest operations to undo (default 1)'),
+	id: z.number().int().min(1).optional().describe('Undo only the operation with this id, from list_history')
+}).refine(
+	args => !(args.count !== undefined && args.id !== undefined),
+	{ message: 'Use either count or id, not both' }
+);
+
+const RedoSchema = z.object({
+	count: z.number().int().min(1).default(1).describe('How many undone operations to redo, latest undo first')
 });
 
 // Security utilities
 async function validatePath(requestedPath: string): Promise<string> {
-	const absolute = path.isAbsolute(requestedPath)
-		? path.resolve(requestedPath)
-		: path.resolve(process.cwd(), requestedPath);
+	return sandbox.resolve(requestedPath, "write");
+}
 
-	const normalized = path.normalize(absolute);
+// Read a file, or return null if it doesn't exist
+async function readIfExists(filePath: string): Promise<string | null> {
+	try {
+		return await readFile(filePath, 'utf-8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			throw error;
+		}
+		return null;
+	}
+}
+
+// Write each file's new content, deleting files whose content is null. If a write fails,
+// the files already written are put back as they were before rethrowing.
+async function writeChanges(changes: FileChange[]): Promise<void> {
+	const written: FileChange[] = [];
+	try {
+		for (const change of changes) {
+			written.push(change);
+			if (change.after === null) {
+				await rm(change.path, { force: true });
+			} else {
+				await mkdir(path.dirname(change.path), { recursive: true });
+				await writeFileAtomic(change.path, change.after);
+			}
+		}
+	} catch (error) {
+		for (const change of written) {
+			try {
+				if (change.before === null) {
+					await rm(change.path, { force: true });
+				} else {
+					await writeFileAtomic(change.path, change.before);
+				}
+			} catch (restoreError) {
+				console.error(`Error restoring ${change.path} after a failed write:`, restoreError);
+			}
+		}
+		throw error;
+	}
+}
 
-	// Check if path is within allowed directories
-	const isAllowed = normalizedDirectories.some(dir => normalized.startsWith(dir));
-	if (!isAllowed) {
-		throw new Error(`Access denied - path outside allowed directories: ${absolute}`);
+// Refuse to change a file that isn't the version the change is based on. The error shows the
+// file's current version, and what the change would do to its current content.
+async function checkExpectedVersion(
+	filePath: string,
+	displayPath: string,
+	content: string | null,
+	expected: { expectedHash?: string; expectedMtime?: number | string },
+	describeChange: (current: string) => string
+): Promise<void> {
+	if (expected.expectedHash === undefined && expected.expectedMtime === undefined) {
+		return;
+	}
+	if (content === null) {
+		throw new Error(`${displayPath} has been deleted since it was read; nothing was written`);
 	}
 
-	return normalized;
+	const version = await fileVersion(filePath);
+	const expectedMtime = typeof expected.expectedMtime === 'string'
+		? Date.parse(expected.expectedMtime)
+		: expected.expectedMtime;
+	const hashMatches = expected.expectedHash === undefined || expected.expectedHash.toLowerCase() === version.hash;
+	const mtimeMatches = expectedMtime === undefined || Math.floor(expectedMtime) === version.mtime;
+	if (hashMatches && mtimeMatches) {
+		return;
+	}
+	throw new Error(
+		`${displayPath} has changed since it was read, and is now at ${formatVersion(version)}; nothing was written.\n` +
+		describeChange(content)
+	);
 }
 
 // Helper function to create a unified diff
 function createUnifiedDiff(originalContent: string, newContent: string, filePath: string): string {
-	// Normalize line endings to \n for consistent diffing
-	const normalizedOriginal = originalContent.replace(/\r\n/g, '\n');
-	const normalizedNew = newContent.replace(/\r\n/g, '\n');
+	// Normalize line endings to \n and drop any byte order mark for consistent diffing
+	const normalizedOriginal = toEditable(originalContent);
+	const normalizedNew = toEditable(newContent);
 
 	return createPatch(
 		filePath,
@@ -81,47 +345,119 @@ function createUnifiedDiff(originalContent: string, newContent: string, filePath
 	);
 }
 
-// Set up the server
-const server = new Server(
+// Available tools; the config can limit which are enabled
+const TOOLS = [
 	{
-		name: "code-edit-mcp",
-		version: "0.1.0",
+		name: "write_file",
+		description:
+			"Create a new file or completely overwrite an existing file with new content. " +
+			"Missing parent directories are created. " +
+			"The file path must be within the allowed directories. An existing file keeps its line endings, " +
+			"byte order mark and final newline. Pass expectedHash (SHA-256 of the file's bytes) or expectedMtime " +
+			"to refuse the write if the file changed since it was read. Shows a diff only if the file exists and the content changes.",
+		inputSchema: zodToJsonSchema(WriteFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
 	},
 	{
-		capabilities: {
-			tools: {},
-		},
+		name: "edit_file",
+		description:
+			"Make targeted replacements in a file by specifying the exact text to find and replace. " +
+			"Edits are applied in order and only written if all of them succeed. Text that appears " +
+			"more than once must be made unique, or picked with occurrence or replaceAll. " +
+			"The file path must be within the allowed directories. Pass expectedHash (SHA-256 of the file's " +
+			"bytes) or expectedMtime to refuse the edit if the file changed since it was read. The file keeps its line endings and byte order mark. " +
+			"Returns a unified diff showing the changes made, and the file's new hash; with dryRun, nothing is written.",
+		inputSchema: zodToJsonSchema(EditFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "apply_patch",
+		description:
+			"Apply a unified diff that may change, create, delete or rename several files. " +
+			"Hunks are placed at the line numbers in the patch or the nearest place their lines match, " +
+			"and fuzz allows ignoring some context lines. Either every file is patched or none are. " +
+			"All paths must be within the allowed directories. " +
+			"Returns where each hunk was applied, or why it was rejected.",
+		inputSchema: zodToJsonSchema(ApplyPatchSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "move_file",
+		description:
+			"Move or rename a file or directory, creating the destination's parent directories if needed. " +
+			"Fails if the destination exists, unless overwrite is set and both are files. " +
+			"Both paths must be within the allowed directories.",
+		inputSchema: zodToJsonSchema(MoveFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "copy_file",
+		description:
+			"Copy a file, or a directory with everything in it, creating the destination's parent directories " +
+			"if needed. Fails if the destination exists, unless overwrite is set and both are files. " +
+			"Both paths must be within the allowed directories.",
+		inputSchema: zodToJsonSchema(CopyFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "delete_file",
+		description:
+			"Delete a file or directory. Requires confirm: true, and recursive: true for a directory " +
+			"that is not empty. Allowed directories themselves can't be deleted. " +
+			"The path must be within the allowed directories.",
+		inputSchema: zodToJsonSchema(DeleteFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "create_directory",
+		description:
+			"Create a directory, along with any missing parent directories. Succeeds if it already exists. " +
+			"The path must be within the allowed directories.",
+		inputSchema: zodToJsonSchema(CreateDirectorySchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "list_history",
+		description:
+			"List the latest file changes made with the other tools, newest first, " +
+			"with their ids and diffs. Operations that were undone are marked, and can be redone.",
+		inputSchema: zodToJsonSchema(ListHistorySchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "undo",
+		description:
+			"Restore the files changed by the latest operations, or by one operation chosen by its id. " +
+			"Refuses if a file has changed since, so later edits are never lost. " +
+			"Returns the diff of what was restored.",
+		inputSchema: zodToJsonSchema(UndoSchema) as z.infer<typeof ToolSchema>["inputSchema"],
+	},
+	{
+		name: "redo",
+		description:
+			"Reapply operations that were undone, starting with the most recently undone. " +
+			"Operations can't be redone once files have been changed again.",
+		inputSchema: zodToJsonSchema(RedoSchema) as z.infer<typeof ToolSchema>["inputSchema"],
 	}
-);
+];
+
+try {
+	checkConfiguredTools(config.codeEdit.tools, TOOLS.map(tool => tool.name), config.file);
+} catch (error) {
+	console.error(error instanceof Error ? error.message : error);
+	process.exit(1);
+}
 
-// Register available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function isToolEnabled(name: string): boolean {
+	return config.codeEdit.tools?.includes(name) ?? true;
+}
+
+// List the enabled tools
+async function listTools(): Promise<ListToolsResult> {
 	return {
-		tools: [
-			{
-				name: "write_file",
-				description:
-					"Create a new file or completely overwrite an existing file with new content. " +
-					"The file path must be within the allowed directories. Shows a diff only if " +
-					"the file exists and the content changes.",
-				inputSchema: zodToJsonSchema(WriteFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
-			},
-			{
-				name: "edit_file",
-				description:
-					"Make a targeted replacement in a file by specifying the exact text to find and replace. " +
-					"The file path must be within the allowed directories. " +
-					"Returns a unified diff showing the changes made.",
-				inputSchema: zodToJsonSchema(EditFileSchema) as z.infer<typeof ToolSchema>["inputSchema"],
-			}
-		],
+		tools: TOOLS.filter(tool => isToolEnabled(tool.name)),
 	};
-});
+}
 
 // Implement the tools
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function callTool(request: CallToolRequest, history: EditHistory): Promise<CallToolResult> {
 	try {
 		const { name, arguments: args } = request.params;
+		if (!isToolEnabled(name)) {
+			throw new Error(`Tool ${name} is disabled by the config file`);
+		}
 
 		switch (name) {
 			case "write_file": {
@@ -132,27 +468,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 				const validPath = await validatePath(parsed.data.path);
 
-				// Try to read existing content
-				let originalContent: string | null = null;
-				try {
-					originalContent = await readFile(validPath, 'utf-8');
-				} catch (error) {
-					if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-						throw error;
-					}
-					// File doesn't exist - that's fine for write_file
-				}
+				// Read existing content; a missing file is fine for write_file
+				const originalContent = await readIfExists(validPath);
+
+				// An existing file keeps its format; the new content decides what the old can't show
+				const newContent = originalContent !== null
+					? applyFormat(
+						toEditable(parsed.data.content),
+						detectFormat(originalContent, detectFormat(parsed.data.content))
+					)
+					: parsed.data.content;
+
+				await checkExpectedVersion(validPath, parsed.data.path, originalContent, parsed.data, current =>
+					`Written over its current content, the change would be:\n${createUnifiedDiff(current, newContent, parsed.data.path)}`
+				);
 
 				// Write the new content
-				await writeFile(validPath, parsed.data.content, 'utf-8');
+				await mkdir(path.dirname(validPath), { recursive: true });
+				await writeFileAtomic(validPath, newContent);
+				await history.record("write_file", [{ path: validPath, before: originalContent, after: newContent }]);
+				const version = formatVersion(await fileVersion(validPath));
 
 				// Only show diff if file existed and content changed
-				if (originalContent !== null && originalContent !== parsed.data.content) {
-					const diff = createUnifiedDiff(originalContent, parsed.data.content, parsed.data.path);
+				if (originalContent !== null && originalContent !== newContent) {
+					const diff = createUnifiedDiff(originalContent, newContent, parsed.data.path);
 					return {
 						content: [{
 							type: "text",
-							text: diff
+							text: `${diff}\nFile version: ${version}`
 						}],
 					};
 				}
@@ -161,9 +504,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 				return {
 					content: [{
 						type: "text",
-						text: originalContent === null
+						text: (originalContent === null
 							? `Created new file: ${parsed.data.path}`
-							: `File unchanged: ${parsed.data.path}`
+							: `File unchanged: ${parsed.data.path}`) + `\nFile version: ${version}`
 					}],
 				};
 			}
@@ -179,27 +522,197 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 				// Read the file content
 				const originalContent = await readFile(validPath, 'utf-8');
 
-				// Normalize line endings in the content and search text
-				const normalizedContent = originalContent.replace(/\r\n/g, '\n');
-				const normalizedOld = parsed.data.oldText.replace(/\r\n/g, '\n');
-
-				if (!normalizedContent.includes(normalizedOld)) {
-					throw new Error(`Could not find text to replace: ${parsed.data.oldText}`);
-				}
+				// Edits are made with LF line endings and no byte order mark, and the result is
+				// written back in the file's own format
+				const edits = parsed.data.edits.map(edit => ({
+					...edit,
+					oldText: edit.oldText.replace(/\r\n/g, '\n'),
+					newText: edit.newText.replace(/\r\n/g, '\n')
+				}));
+				const editText = (content: string) => applyEdits(toEditable(content), edits, {
+					ignoreWhitespace: parsed.data.ignoreWhitespace
+				});
 
-				// Apply the edit
-				const newContent = normalizedContent.replace(normalizedOld, parsed.data.newText);
+				await checkExpectedVersion(validPath, parsed.data.path, originalContent, parsed.data, current => {
+					try {
+						const diff = createUnifiedDiff(current, editText(current), parsed.data.path);
+						return `Applied to its current content, the edits would make this change:\n${diff}`;
+					} catch (error) {
+						return `The edits don't apply to its current content: ${error instanceof Error ? error.message : error}`;
+					}
+				});
 
-				// Write the modified content back
-				await writeFile(validPath, newContent, 'utf-8');
+				// Apply all edits before writing anything
+				const newContent = applyFormat(editText(originalContent), detectFormat(originalContent));
 
 				// Generate diff
 				const diff = createUnifiedDiff(originalContent, newContent, parsed.data.path);
 
+				if (parsed.data.dryRun) {
+					const version = formatVersion(await fileVersion(validPath));
+					return {
+						content: [{
+							type: "text",
+							text: `Dry run, ${parsed.data.path} was not changed and is at ${version}:\n${diff}`
+						}],
+					};
+				}
+
+				// Write the modified content back
+				await writeFileAtomic(validPath, newContent);
+				await history.record("edit_file", [{ path: validPath, before: originalContent, after: newContent }]);
+				const version = formatVersion(await fileVersion(validPath));
+
+				return {
+					content: [{
+						type: "text",
+						text: `${diff}\nFile version: ${version}`
+					}],
+				};
+			}
+
+			case "apply_patch": {
+				const parsed = ApplyPatchSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await applyPatch(parsed.data, history)
+					}],
+				};
+			}
+
+			case "move_file": {
+				const parsed = MoveFileSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await moveFile(parsed.data, history)
+					}],
+				};
+			}
+
+			case "copy_file": {
+				const parsed = CopyFileSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await copyFile(parsed.data, history)
+					}],
+				};
+			}
+
+			case "delete_file": {
+				const parsed = DeleteFileSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await deleteFile(parsed.data, history)
+					}],
+				};
+			}
+
+			case "create_directory": {
+				const parsed = CreateDirectorySchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const validPath = await validatePath(parsed.data.path);
+				const existing = await statIfExists(validPath);
+				if (existing && !existing.isDirectory()) {
+					throw new Error(`${parsed.data.path} already exists and is not a directory`);
+				}
+				await mkdir(validPath, { recursive: true });
+
+				return {
+					content: [{
+						type: "text",
+						text: existing
+							? `Directory already exists: ${parsed.data.path}`
+							: `Created directory: ${parsed.data.path}`
+					}],
+				};
+			}
+
+			case "list_history": {
+				const parsed = ListHistorySchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const entries = history.recent(parsed.data.limit);
 				return {
 					content: [{
 						type: "text",
-						text: diff
+						text: entries.length > 0
+							? entries.map(entry => formatHistoryEntry(entry, parsed.data.diffs)).join('\n\n')
+							: 'No file changes have been recorded'
+					}],
+				};
+			}
+
+			case "undo": {
+				const parsed = UndoSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				let entries: HistoryEntry[];
+				if (parsed.data.id !== undefined) {
+					const entry = history.find(parsed.data.id);
+					if (!entry) {
+						throw new Error(`No operation #${parsed.data.id} in the history; older operations are dropped once it is full`);
+					}
+					if (entry.undoneAt !== undefined) {
+						throw new Error(`Operation #${entry.id} is already undone`);
+					}
+					entries = [entry];
+				} else {
+					entries = history.undoable(parsed.data.count ?? 1);
+					if (entries.length === 0) {
+						throw new Error('There is nothing to undo');
+					}
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await restoreEntries(entries, "undo", history)
+					}],
+				};
+			}
+
+			case "redo": {
+				const parsed = RedoSchema.safeParse(args);
+				if (!parsed.success) {
+					throw new Error(`Invalid arguments: ${parsed.error}`);
+				}
+
+				const entries = history.redoable(parsed.data.count);
+				if (entries.length === 0) {
+					throw new Error('There is nothing to redo');
+				}
+
+				return {
+					content: [{
+						type: "text",
+						text: await restoreEntries(entries, "redo", history)
 					}],
 				};
 			}
@@ -214,14 +727,409 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 			isError: true,
 		};
 	}
-});
+}
+
+interface PatchedFileResult {
+	patch: FilePatch;
+	hunks: HunkResult[];
+	error?: string;
+}
+
+// Describe where a hunk was applied, or why it wasn't
+function formatHunkResult(result: HunkResult, index: number): string {
+	if (!result.applied) {
+		return `  hunk ${index + 1}: rejected, ${result.reason}`;
+	}
+	const adjustments = [
+		...(result.offset ? [`offset ${result.offset > 0 ? '+' : ''}${result.offset} lines`] : []),
+		...(result.fuzz ? [`fuzz ${result.fuzz}`] : [])
+	];
+	return `  hunk ${index + 1}: applied at line ${result.line}` +
+		(adjustments.length > 0 ? ` (${adjustments.join(', ')})` : '');
+}
+
+function formatFileCount(count: number): string {
+	return `${count} file${count === 1 ? '' : 's'}`;
+}
+
+function formatPatchResults(results: PatchedFileResult[]): string {
+	return results.flatMap(({ patch, hunks, error }) => [
+		`${patch.operation} ${patch.operation === "rename" ? `${patch.oldPath} -> ${patch.newPath}` : patch.newPath ?? patch.oldPath}`,
+		...hunks.map(formatHunkResult),
+		...(error ? [`  error: ${error}`] : [])
+	]).join('\n');
+}
+
+// Apply a multi-file patch. Every file is checked and patched in memory first; files are only
+// written if all of them patch cleanly, and if a write fails the files already written are restored.
+async function applyPatch(args: z.infer<typeof ApplyPatchSchema>, history: EditHistory): Promise<string> {
+	let patches: FilePatch[];
+	try {
+		patches = parseUnifiedDiff(args.patch);
+	} catch (error) {
+		throw new Error(`Invalid patch: ${error instanceof Error ? error.message : error}`);
+	}
+
+	let baseDirectory: string;
+	if (args.directory !== undefined) {
+		baseDirectory = await validatePath(args.directory);
+	} else if (sandbox.directories.length === 1) {
+		baseDirectory = sandbox.directories[0].path;
+	} else {
+		throw new Error('Set directory to say which allowed directory the paths in the patch are relative to');
+	}
+
+	// Content before and after patching, by absolute path; null means the file doesn't exist.
+	// A file patched twice sees the result of the first patch.
+	const originals = new Map<string, string | null>();
+	const updated = new Map<string, string | null>();
+	const readCurrent = async (filePath: string): Promise<string | null> => {
+		if (updated.has(filePath)) {
+			return updated.get(filePath)!;
+		}
+		if (!originals.has(filePath)) {
+			originals.set(filePath, await readIfExists(filePath));
+		}
+		return originals.get(filePath)!;
+	};
+
+	const results: PatchedFileResult[] = [];
+	for (const patch of patches) {
+		try {
+			const oldPath = patch.oldPath !== undefined
+				? await validatePath(path.resolve(baseDirectory, patch.oldPath))
+				: undefined;
+			const newPath = patch.newPath !== undefined
+				? await validatePath(path.resolve(baseDirectory, patch.newPath))
+				: undefined;
+
+			const content = oldPath !== undefined ? await readCurrent(oldPath) : '';
+			if (content === null) {
+				throw new Error('the file does not exist');
+			}
+			if (newPath !== undefined && newPath !== oldPath && await readCurrent(newPath) !== null) {
+				throw new Error(`${patch.newPath} already exists`);
+			}
+
+			const patched = applyFilePatch(toEditable(content), patch, args.fuzz);
+			results.push({ patch, hunks: patched.hunks, error: patched.error });
+			if (patched.error || patched.hunks.some(hunk => !hunk.applied)) {
+				continue;
+			}
+			if (oldPath !== undefined && oldPath !== newPath) {
+				updated.set(oldPath, null);
+			}
+			if (newPath !== undefined) {
+				// Keep the file's format, except a final newline the patch adds or removes
+				updated.set(newPath, applyFormat(patched.content!, { ...detectFormat(content), finalNewline: undefined }));
+			}
+		} catch (error) {
+			results.push({ patch, hunks: [], error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	const report = formatPatchResults(results);
+	if (results.some(result => result.error || result.hunks.some(hunk => !hunk.applied))) {
+		throw new Error(`Patch not applied; no files were changed.\n${report}`);
+	}
+	if (args.dryRun) {
+		return `Dry run, the patch applies cleanly to ${formatFileCount(patches.length)}; nothing was written.\n${report}`;
+	}
+
+	const changes = [...updated].map(([filePath, content]) => ({
+		path: filePath,
+		before: originals.get(filePath) ?? null,
+		after: content
+	}));
+	try {
+		await writeChanges(changes);
+	} catch (error) {
+		throw new Error(`Patch not applied, writing failed: ${error instanceof Error ? error.message : error}`);
+	}
+	await history.record("apply_patch", changes);
+
+	return `Patched ${formatFileCount(patches.length)}.\n${report}`;
+}
+
+// A path's stats without following a final symlink, or undefined if nothing is there
+async function statIfExists(filePath: string): Promise<Stats | undefined> {
+	try {
+		return await lstat(filePath);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			throw error;
+		}
+		return undefined;
+	}
+}
+
+// Content of a file for the history: null if it doesn't exist, and undefined if it isn't a
+// UTF-8 text file, which the history can't restore
+async function readTextForHistory(filePath: string): Promise<string | null | undefined> {
+	const stats = await statIfExists(filePath);
+	if (!stats) {
+		return null;
+	}
+	if (!stats.isFile()) {
+		return undefined;
+	}
+	const buffer = await readFile(filePath);
+	if (buffer.includes(0)) {
+		return undefined;
+	}
+	try {
+		return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(buffer);
+	} catch {
+		return undefined;
+	}
+}
+
+// Record a move, copy or delete of a single file, if every file involved is text
+async function recordFileOperation(
+	history: EditHistory,
+	tool: string,
+	changes: { path: string; before: string | null | undefined; after: string | null | undefined }[]
+): Promise<void> {
+	if (changes.every((change): change is FileChange => change.before !== undefined && change.after !== undefined)) {
+		await history.record(tool, changes);
+	}
+}
+
+interface TreeEntry {
+	path: string;
+	isDirectory: boolean;
+}
+
+// Everything inside a directory, at any depth
+async function listTree(directory: string): Promise<TreeEntry[]> {
+	const entries: TreeEntry[] = [];
+	for (const dirent of await readdir(directory, { withFileTypes: true })) {
+		const entryPath = path.join(directory, dirent.name);
+		entries.push({ path: entryPath, isDirectory: dirent.isDirectory() });
+		if (dirent.isDirectory()) {
+			entries.push(...await listTree(entryPath));
+		}
+	}
+	return entries;
+}
+
+// List a directory that is about to be moved, copied or deleted, checking that nothing in it
+// matches a deny pattern, where it is now or where it is going
+async function checkTree(source: string, destination?: string): Promise<TreeEntry[]> {
+	const entries = await listTree(source);
+	for (const entry of entries) {
+		const targets = destination !== undefined
+			? [entry.path, path.join(destination, path.relative(source, entry.path))]
+			: [entry.path];
+		const denied = targets.find(target => sandbox.isDenied(target, entry.isDirectory));
+		if (denied) {
+			throw new Error(`Access denied - path matches a deny pattern: ${denied}`);
+		}
+	}
+	return entries;
+}
+
+// Refuse to move or delete an allowed directory, or a directory containing one
+function checkNotAllowedDirectory(filePath: string, displayPath: string): void {
+	const contained = sandbox.directories.find(dir => isWithin(filePath, dir.path));
+	if (contained) {
+		throw new Error(
+			contained.path === filePath
+				? `${displayPath} is an allowed directory and can't be moved or deleted`
+				: `${displayPath} contains the allowed directory ${contained.path} and can't be moved or deleted`
+		);
+	}
+}
+
+function describeEntry(displayPath: string, stats: Stats, entries: TreeEntry[]): string {
+	return stats.isDirectory()
+		? `directory ${displayPath} (${formatFileCount(entries.filter(entry => !entry.isDirectory).length)})`
+		: `file ${displayPath}`;
+}
+
+// Check the source and destination of a move or copy
+async function checkTransfer(args: z.infer<typeof MoveFileSchema>) {
+	const source = await validatePath(args.source);
+	const destination = await validatePath(args.destination);
+	const sourceStats = await statIfExists(source);
+	if (!sourceStats) {
+		throw new Error(`${args.source} does not exist`);
+	}
+	if (source === destination) {
+		throw new Error('The source and destination are the same');
+	}
+	if (sourceStats.isDirectory() && isWithin(source, destination)) {
+		throw new Error(`Can't put ${args.source} inside itself`);
+	}
+
+	const destinationStats = await statIfExists(destination);
+	if (destinationStats) {
+		if (!args.overwrite) {
+			throw new Error(`${args.destination} already exists; set overwrite to replace it`);
+		}
+		if (sourceStats.isDirectory() || destinationStats.isDirectory()) {
+			throw new Error(`${args.destination} already exists; overwrite only replaces a file with a file`);
+		}
+	}
+
+	const entries = sourceStats.isDirectory() ? await checkTree(source, destination) : [];
+	return { source, destination, sourceStats, entries };
+}
+
+// Move or rename a file or directory. Across file systems, where renaming isn't possible,
+// it is copied and the original removed.
+async function moveFile(args: z.infer<typeof MoveFileSchema>, history: EditHistory): Promise<string> {
+	const { source, destination, sourceStats, entries } = await checkTransfer(args);
+	checkNotAllowedDirectory(source, args.source);
+
+	const content = await readTextForHistory(source);
+	const replaced = await readTextForHistory(destination);
+
+	await mkdir(path.dirname(destination), { recursive: true });
+	try {
+		await rename(source, destination);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+			throw error;
+		}
+		await cp(source, destination, { recursive: true, force: args.overwrite, errorOnExist: true, preserveTimestamps: true });
+		await rm(source, { recursive: true });
+	}
+
+	await recordFileOperation(history, "move_file", [
+		{ path: source, before: content, after: null },
+		{ path: destination, before: replaced, after: content }
+	]);
+	return `Moved ${describeEntry(args.source, sourceStats, entries)} to ${args.destination}` +
+		(replaced !== null ? `, replacing the file that was there` : '');
+}
+
+async function copyFile(args: z.infer<typeof CopyFileSchema>, history: EditHistory): Promise<string> {
+	const { source, destination, sourceStats, entries } = await checkTransfer(args);
+
+	const content = await readTextForHistory(source);
+	const replaced = await readTextForHistory(destination);
+
+	await mkdir(path.dirname(destination), { recursive: true });
+	await cp(source, destination, { recursive: true, force: args.overwrite, errorOnExist: true, preserveTimestamps: true });
+
+	await recordFileOperation(history, "copy_file", [{ path: destination, before: replaced, after: content }]);
+	return `Copied ${describeEntry(args.source, sourceStats, entries)} to ${args.destination}` +
+		(replaced !== null ? `, replacing the file that was there` : '');
+}
+
+async function deleteFile(args: z.infer<typeof DeleteFileSchema>, history: EditHistory): Promise<string> {
+	const validPath = await validatePath(args.path);
+	const stats = await statIfExists(validPath);
+	if (!stats) {
+		throw new Error(`${args.path} does not exist`);
+	}
+	checkNotAllowedDirectory(validPath, args.path);
+
+	const entries = stats.isDirectory() ? await checkTree(validPath) : [];
+	if (entries.length > 0 && !args.recursive) {
+		throw new Error(`${args.path} is a directory that is not empty; set recursive to delete it and everything in it`);
+	}
+
+	const content = await readTextForHistory(validPath);
+	await rm(validPath, { recursive: stats.isDirectory() });
+
+	await recordFileOperation(history, "delete_file", [{ path: validPath, before: content, after: null }]);
+	return `Deleted ${describeEntry(args.path, stats, entries)}` +
+		(content === undefined ? '; it could not be kept in the edit history, so this can\'t be undone' : '');
+}
+
+// The diff of one file's change, with a note when it was created or deleted
+function formatFileChange(change: FileChange): string {
+	const note = change.before === null ? ' (created)' : change.after === null ? ' (deleted)' : '';
+	return `${change.path}${note}\n${createUnifiedDiff(change.before ?? '', change.after ?? '', change.path)}`;
+}
+
+function formatHistoryEntry(entry: HistoryEntry, diffs: boolean): string {
+	const header = `#${entry.id} ${entry.tool} at ${new Date(entry.timestamp).toISOString()}` +
+		(entry.undoneAt !== undefined ? ' (undone)' : '') +
+		(diffs ? '' : `: ${entry.changes.map(change => change.path).join(', ')}`);
+	return diffs ? [header, ...entry.changes.map(formatFileChange)].join('\n') : header;
+}
+
+// Undo or redo history entries together. Every file must still be as the entries left it;
+// otherwise nothing is written and the error shows what changed since.
+async function restoreEntries(
+	entries: HistoryEntry[],
+	direction: "undo" | "redo",
+	history: EditHistory
+): Promise<string> {
+	const changes: FileChange[] = [];
+	for (const restore of netRestores(entries, direction)) {
+		await validatePath(restore.path);
+		const current = await readIfExists(restore.path);
+		if (current !== restore.expected) {
+			const state = current === null ? 'has been deleted' : restore.expected === null ? 'has been created' : 'has changed';
+			const diff = current !== null && restore.expected !== null
+				? `:\n${createUnifiedDiff(restore.expected, current, restore.path)}`
+				: '';
+			throw new Error(`Cannot ${direction}, ${restore.path} ${state} since${diff}`);
+		}
+		changes.push({ path: restore.path, before: current, after: restore.content });
+	}
+
+	try {
+		await writeChanges(changes);
+	} catch (error) {
+		throw new Error(`Cannot ${direction}, writing failed: ${error instanceof Error ? error.message : error}`);
+	}
+	if (direction === "undo") {
+		await history.markUndone(entries);
+	} else {
+		await history.markRedone(entries);
+	}
+
+	const operations = entries.map(entry => `#${entry.id} ${entry.tool}`).join(', ');
+	return [
+		`${direction === "undo" ? 'Undid' : 'Redid'} ${operations}.`,
+		...changes.filter(change => change.before !== change.after).map(formatFileChange)
+	].join('\n');
+}
+
+// Set up a server with the tools. Over stdio there is one; over HTTP each client
+// session gets its own, sharing the sandbox. Each has its own edit history, so a client
+// can only undo its own changes.
+function createServer(history = new EditHistory(historySize)): Server {
+	const server = new Server(
+		{
+			name: "code-edit-mcp",
+			version: "0.1.0",
+		},
+		{
+			capabilities: {
+				tools: {},
+			},
+		}
+	);
+
+	server.setRequestHandler(ListToolsRequestSchema, listTools);
+	server.setRequestHandler(CallToolRequestSchema, request => callTool(request, history));
+
+	followClientRoots(server, sandbox, configuredDirectories, rootsMode);
+
+	return server;
+}
 
 // Start server
 async function runServer() {
-	const transport = new StdioServerTransport();
-	await server.connect(transport);
-	console.error("Code Edit MCP Server running on stdio");
-	console.error("Allowed directories:", normalizedDirectories);
+	if (transportOptions.transport === "http") {
+		await serveHttp(() => createServer(), transportOptions);
+		console.error("Code Edit MCP Server running on HTTP");
+	} else {
+		const history = new EditHistory(historySize, historyFile);
+		await history.load();
+		await createServer(history).connect(new StdioServerTransport());
+		console.error("Code Edit MCP Server running on stdio");
+	}
+	console.error("Allowed directories:", sandbox.directories.map(dir => dir.path));
+	if (rootsMode !== "off") {
+		console.error(`Using client roots (${rootsMode})`);
+	}
 }
 
 runServer().catch((error) => {